@@ -0,0 +1,237 @@
+import { App, normalizePath, TFile } from 'obsidian';
+import { SyncCursor } from '../services/twitter-service';
+import { BookmarkDataSnapshot, BookmarkStorage, SnapshotRestoreResult } from './bookmark-storage';
+
+const BACKUP_FORMAT = 'bookmark-bridge-backup';
+const BACKUP_VERSION = 1;
+const BACKUP_FOLDER = 'Bookmark Bridge Backups';
+
+/**
+ * Contents of a backup file
+ */
+export interface BookmarkBackup {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    createdAt: string;
+    cursor: SyncCursor | null; // Null if the backup's cursor was invalid and won't be restored
+    lastSyncTimestamp: number;
+    data: BookmarkDataSnapshot;
+}
+
+/**
+ * What was found when checking a backup file before restoring it
+ */
+export interface BackupValidationReport {
+    backup: BookmarkBackup | null; // The entries that can be restored, or null if the file can't be restored at all
+    errors: string[]; // Problems that prevent restoring the backup
+    warnings: string[]; // Problems with parts of the backup, which are skipped when restoring
+    counts: Record<keyof BookmarkDataSnapshot, number>; // Valid entries per section
+    missingNotes: number; // Records whose note is not in the vault
+}
+
+/**
+ * How an entry in a backup section is checked
+ */
+type EntryValidator = (key: string, value: unknown) => string | null;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const ENTRY_VALIDATORS: Record<keyof BookmarkDataSnapshot, EntryValidator> = {
+    processedBookmarks: (key, value) =>
+        typeof value === 'number' && isFinite(value) ? null : 'import time is not a number',
+    bookmarkRecords: (key, value) => {
+        if (!isObject(value)) return 'not a record';
+        if (value.tweetId !== key) return 'tweet ID does not match its key';
+        if (typeof value.filePath !== 'string' || !value.filePath) return 'file path is missing';
+        if (typeof value.importDate !== 'string' || isNaN(new Date(value.importDate).getTime())) return 'import date is not a date';
+        return null;
+    },
+    pendingRemovals: (key, value) => {
+        if (!isObject(value)) return 'not a pending removal';
+        if (value.tweetId !== key) return 'tweet ID does not match its key';
+        if (typeof value.attempts !== 'number') return 'attempt count is not a number';
+        return null;
+    },
+    bookmarkPayloads: (key, value) => {
+        if (!isObject(value)) return 'not bookmark data';
+        if (value.id !== key) return 'tweet ID does not match its key';
+        if (typeof value.text !== 'string') return 'tweet text is missing';
+        return null;
+    }
+};
+
+/**
+ * Exports the bookmark database and sync cursor to a versioned JSON file in the vault,
+ * and checks and restores such files
+ */
+export class BookmarkBackupManager {
+    private app: App;
+    private bookmarkStorage: BookmarkStorage;
+
+    constructor(app: App, bookmarkStorage: BookmarkStorage) {
+        this.app = app;
+        this.bookmarkStorage = bookmarkStorage;
+    }
+
+    /**
+     * Write a backup of the bookmark database to the backup folder
+     * @param cursor The current sync cursor
+     * @param lastSyncTimestamp When the last sync finished
+     * @returns The backup file
+     */
+    public async exportBackup(cursor: SyncCursor, lastSyncTimestamp: number): Promise<TFile> {
+        const createdAt = new Date();
+        const backup: BookmarkBackup = {
+            format: BACKUP_FORMAT,
+            version: BACKUP_VERSION,
+            createdAt: createdAt.toISOString(),
+            cursor,
+            lastSyncTimestamp,
+            data: await this.bookmarkStorage.exportSnapshot()
+        };
+
+        const folderPath = normalizePath(BACKUP_FOLDER);
+        if (!(await this.app.vault.adapter.exists(folderPath))) {
+            await this.app.vault.createFolder(folderPath);
+        }
+
+        // e.g. bookmark-bridge-backup-2024-05-01T10-30-00.json
+        const timestamp = createdAt.toISOString().replace(/\.\d+Z$/, '').replace(/:/g, '-');
+        let filePath = normalizePath(`${folderPath}/bookmark-bridge-backup-${timestamp}.json`);
+        for (let suffix = 2; await this.app.vault.adapter.exists(filePath); suffix++) {
+            filePath = normalizePath(`${folderPath}/bookmark-bridge-backup-${timestamp}-${suffix}.json`);
+        }
+
+        const file = await this.app.vault.create(filePath, JSON.stringify(backup, null, 2));
+        console.log(`[Bookmark Bridge] Exported backup to ${file.path}`);
+        return file;
+    }
+
+    /**
+     * Get the JSON files in the vault that may be backups, newest first
+     */
+    public getBackupCandidates(): TFile[] {
+        return this.app.vault.getFiles()
+            .filter(file => file.extension === 'json')
+            .sort((a, b) => b.stat.mtime - a.stat.mtime);
+    }
+
+    /**
+     * Read a backup file and check everything in it
+     * Invalid entries are reported and left out of the backup that is returned.
+     */
+    public async validateBackup(file: TFile): Promise<BackupValidationReport> {
+        const report: BackupValidationReport = {
+            backup: null,
+            errors: [],
+            warnings: [],
+            counts: { processedBookmarks: 0, bookmarkRecords: 0, pendingRemovals: 0, bookmarkPayloads: 0 },
+            missingNotes: 0
+        };
+
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(await this.app.vault.read(file));
+        } catch (error) {
+            report.errors.push(`The file is not valid JSON: ${(error as Error).message}`);
+            return report;
+        }
+
+        if (!isObject(parsed) || parsed.format !== BACKUP_FORMAT) {
+            report.errors.push('The file is not a Bookmark Bridge backup.');
+            return report;
+        }
+        if (typeof parsed.version !== 'number' || parsed.version < 1) {
+            report.errors.push('The backup has no valid version number.');
+            return report;
+        }
+        if (parsed.version > BACKUP_VERSION) {
+            report.errors.push(`The backup was made by a newer version of the plugin (backup version ${parsed.version}). Update the plugin to restore it.`);
+            return report;
+        }
+        if (!isObject(parsed.data)) {
+            report.errors.push('The backup contains no bookmark data.');
+            return report;
+        }
+
+        const data: BookmarkDataSnapshot = {
+            processedBookmarks: {},
+            bookmarkRecords: {},
+            pendingRemovals: {},
+            bookmarkPayloads: {}
+        };
+        for (const section of Object.keys(ENTRY_VALIDATORS) as (keyof BookmarkDataSnapshot)[]) {
+            const entries = parsed.data[section];
+            if (entries === undefined) {
+                report.warnings.push(`The backup has no ${section}.`);
+                continue;
+            }
+            if (!isObject(entries)) {
+                report.warnings.push(`The backup's ${section} are not valid and will be skipped.`);
+                continue;
+            }
+
+            const invalid: string[] = [];
+            for (const key in entries) {
+                const problem = ENTRY_VALIDATORS[section](key, entries[key]);
+                if (problem) {
+                    invalid.push(`${key} (${problem})`);
+                } else {
+                    (data[section] as Record<string, unknown>)[key] = entries[key];
+                    report.counts[section]++;
+                }
+            }
+            if (invalid.length > 0) {
+                const examples = invalid.slice(0, 5).join(', ');
+                report.warnings.push(`${invalid.length} invalid ${section} entries will be skipped: ${examples}${invalid.length > 5 ? ', ...' : ''}`);
+            }
+        }
+
+        for (const id in data.bookmarkRecords) {
+            const record = data.bookmarkRecords[id];
+            if (!record.deletedAt && !this.app.vault.getAbstractFileByPath(normalizePath(record.filePath))) {
+                report.missingNotes++;
+            }
+        }
+        if (report.missingNotes > 0) {
+            report.warnings.push(`${report.missingNotes} record(s) point to notes that are not in the vault. Run "Rebuild index from vault" after restoring to find where they are.`);
+        }
+
+        let cursor: SyncCursor | null = null;
+        const savedCursor = parsed.cursor;
+        if (isObject(savedCursor)
+            && typeof savedCursor.nextPaginationToken === 'string'
+            && typeof savedCursor.initialSyncComplete === 'boolean'
+            && typeof savedCursor.lastSyncPage === 'number') {
+            cursor = {
+                nextPaginationToken: savedCursor.nextPaginationToken,
+                initialSyncComplete: savedCursor.initialSyncComplete,
+                lastSyncPage: savedCursor.lastSyncPage
+            };
+        } else {
+            report.warnings.push('The backup\'s sync cursor is not valid and will not be restored.');
+        }
+
+        report.backup = {
+            format: BACKUP_FORMAT,
+            version: parsed.version,
+            createdAt: typeof parsed.createdAt === 'string' ? parsed.createdAt : '',
+            cursor,
+            lastSyncTimestamp: typeof parsed.lastSyncTimestamp === 'number' ? parsed.lastSyncTimestamp : 0,
+            data
+        };
+        return report;
+    }
+
+    /**
+     * Restore the bookmark data of a validated backup
+     * The sync cursor is not changed here; when replacing, the caller restores backup.cursor.
+     */
+    public async restoreBackup(backup: BookmarkBackup, mode: 'merge' | 'replace'): Promise<SnapshotRestoreResult> {
+        const result = await this.bookmarkStorage.restoreSnapshot(backup.data, mode);
+        console.log(`[Bookmark Bridge] Restored backup from ${backup.createdAt} (${mode}): ${JSON.stringify(result)}`);
+        return result;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { TwitterBookmark } from '../services/twitter-service';
+
+/**
+ * What a condition checks a bookmark for
+ */
+export type BookmarkConditionType = 'author' | 'keyword' | 'hasMedia' | 'isThread' | 'hasLinks' | 'always';
+
+/**
+ * A test applied to a bookmark, e.g. to pick the folder its note goes to or the template it is rendered with
+ */
+export interface BookmarkCondition {
+    type: BookmarkConditionType;
+    value: string; // Comma-separated usernames or keywords; unused by conditions that take no value
+}
+
+/**
+ * How each condition type is shown in the settings tab
+ */
+export const CONDITION_TYPES: Record<BookmarkConditionType, { label: string; valuePlaceholder: string | null }> = {
+    author: { label: 'Author is one of', valuePlaceholder: 'e.g., jack, @naval' },
+    keyword: { label: 'Text contains', valuePlaceholder: 'e.g., #rustlang, machine learning' },
+    hasMedia: { label: 'Has media', valuePlaceholder: null },
+    isThread: { label: 'Is a thread', valuePlaceholder: null },
+    hasLinks: { label: 'Has links', valuePlaceholder: null },
+    always: { label: 'Every bookmark', valuePlaceholder: null }
+};
+
+/**
+ * Split a comma-separated condition value into lowercase entries
+ */
+function splitConditionValue(value: string): string[] {
+    return value
+        .split(',')
+        .map(entry => entry.trim().toLowerCase())
+        .filter(entry => entry.length > 0);
+}
+
+/**
+ * Check if a bookmark has a keyword, or a hashtag when the keyword starts with #
+ */
+function hasKeyword(bookmark: TwitterBookmark, keyword: string): boolean {
+    if (keyword.startsWith('#')) {
+        const hashtag = keyword.substring(1);
+        if (bookmark.hashtags.some(tag => tag.toLowerCase() === hashtag)) {
+            return true;
+        }
+    }
+
+    const texts = [bookmark.text, ...bookmark.thread.map(threadTweet => threadTweet.text)];
+    if (bookmark.article) {
+        texts.push(bookmark.article.title);
+    }
+    return texts.some(text => text.toLowerCase().includes(keyword));
+}
+
+/**
+ * Check if a bookmark meets a condition
+ * Conditions that need a value never match when it is empty.
+ */
+export function matchesCondition(bookmark: TwitterBookmark, condition: BookmarkCondition): boolean {
+    switch (condition.type) {
+        case 'author': {
+            const username = bookmark.authorUsername.toLowerCase();
+            return splitConditionValue(condition.value).some(author => author.replace(/^@/, '') === username);
+        }
+        case 'keyword':
+            return splitConditionValue(condition.value).some(keyword => hasKeyword(bookmark, keyword));
+        case 'hasMedia':
+            return bookmark.mediaUrls.length > 0;
+        case 'isThread':
+            return bookmark.thread.length > 0;
+        case 'hasLinks':
+            return bookmark.links.length > 0;
+        case 'always':
+            return true;
+    }
+}
+
+/**
+ * Find the first item whose condition a bookmark meets
+ * @returns The index of the item, or -1 if none matches
+ */
+export function findFirstMatch(items: BookmarkCondition[], bookmark: TwitterBookmark): number {
+    for (let i = 0; i < items.length; i++) {
+        if (matchesCondition(bookmark, items[i])) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Describe a condition for the settings tab and logs, e.g. 'Author is one of "jack, naval"'
+ */
+export function describeCondition(condition: BookmarkCondition): string {
+    const type = CONDITION_TYPES[condition.type];
+    return type.valuePlaceholder === null ? type.label : `${type.label} "${condition.value}"`;
+}
+
+/**
+ * Check a saved condition
+ * @returns A description of what is wrong with it, or null if it is valid
+ */
+export function checkCondition(value: unknown): string | null {
+    if (typeof value !== 'object' || value === null) return 'is not a condition';
+    const condition = value as Record<string, unknown>;
+    if (typeof condition.type !== 'string' || !(condition.type in CONDITION_TYPES)) return 'has an unknown condition type';
+    if (typeof condition.value !== 'string') return 'has no condition value';
+    return null;
+}
\ No newline at end of file
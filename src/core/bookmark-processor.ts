@@ -1,35 +1,38 @@
 import { App, normalizePath, TFile, Vault } from 'obsidian';
-import { TwitterBookmark } from '../services/twitter-service';
-import { BookmarkStorage } from './bookmark-storage';
-
-interface BookmarkBridgeSettings {
-    // OAuth 2.0 credentials
-    clientId: string;
-    clientSecret: string;
-    oauth2AccessToken: string;
-    oauth2RefreshToken: string;
-    codeVerifier: string;
-    
-    // Storage settings
-    storageMethod: 'separate' | 'single'; // Store bookmarks as separate files or in a single file
-    targetFolder: string;
-    singleFileName: string; // Filename for single file storage
-    
-    // Sync state
-    lastSyncTimestamp: number;
-    logFile: string;
-    
-    // Template settings
-    template: string; // Template for all bookmark formats
-    useCustomTemplate: boolean; // Whether to use custom templates
-    
-    // Pagination tracking
-    nextPaginationToken: string; // Token for the next page of bookmarks
-    initialSyncComplete: boolean; // Whether we've completed the initial full sync
-    lastSyncPage: number; // Last page of bookmarks we've synced
-    lastSyncTime: number; // Timestamp of the last sync attempt (for rate limit tracking)
+import { TwitterArticle, TwitterBookmark, TwitterLink, TwitterReferencedTweet, TwitterThreadTweet } from '../services/twitter-service';
+import { BookmarkRecord, BookmarkStorage } from './bookmark-storage';
+import { refreshNote, replaceRegion, wrapNoteRegion, wrapSectionRegion } from './note-regions';
+import { renderTemplate } from './template-engine';
+import { sanitizeFileName } from './file-names';
+import { findConditionalTemplate } from './conditional-templates';
+import { findRoutingRule, sanitizeFolderPath } from './folder-routing';
+import { getBookmarkProperties, parseStaticProperties, serializeFrontmatter } from './frontmatter';
+import { BookmarkBridgeSettings } from '../settings';
+
+/**
+ * Result of re-rendering all notes from the cached API data
+ */
+export interface RerenderReport {
+    updated: number; // Notes or single-file sections whose content changed
+    moved: number; // Notes moved to match the current filename and folder settings
+    unchanged: number;
+    missingData: number; // Bookmarks imported before API data was cached
+    notUpdatable: number; // Single-file sections without markers, imported before they existed
+    failed: number;
+}
+
+const SINGLE_FILE_HEADER = `# Twitter Bookmarks\n\nA collection of your bookmarked tweets from Twitter/X.\n\n`;
+
+/**
+ * Where a bookmark's separate note goes
+ */
+export interface NoteRoute {
+    folderPath: string;
+    ruleIndex: number; // Index of the routing rule that chose the folder, -1 if no rule matched
 }
 
+const MAX_CONCURRENT_WRITES = 8; // Notes written at the same time when importing separate files
+
 export class BookmarkProcessor {
     private app: App;
     private settings: BookmarkBridgeSettings;
@@ -41,61 +44,338 @@ export class BookmarkProcessor {
         this.bookmarkStorage = bookmarkStorage;
     }
 
-    public async processBookmarks(bookmarks: TwitterBookmark[]): Promise<void> {
+    /**
+     * Save bookmarks to the vault
+     * @returns IDs of the bookmarks that are safely stored in the vault, including ones imported earlier
+     */
+    public async processBookmarks(bookmarks: TwitterBookmark[]): Promise<string[]> {
         if (!bookmarks || bookmarks.length === 0) {
-            return;
+            return [];
         }
 
         // Make sure the target folder exists
         await this.ensureTargetFolderExists();
 
-        if (this.settings.storageMethod === 'single') {
-            // Process all bookmarks into a single file
-            await this.processSingleFileBookmarks(bookmarks);
-        } else {
-            // Process each bookmark into its own file
-            await this.processSeparateFileBookmarks(bookmarks);
-        }
+        // Save the records of the whole batch with a single write
+        return await this.bookmarkStorage.transaction(async () => {
+            if (this.settings.storageMethod === 'single') {
+                // Process all bookmarks into a single file
+                return await this.processSingleFileBookmarks(bookmarks);
+            } else {
+                // Process each bookmark into its own file
+                return await this.processSeparateFileBookmarks(bookmarks);
+            }
+        });
     }
 
     /**
      * Process bookmarks into individual files (original method)
      */
-    private async processSeparateFileBookmarks(bookmarks: TwitterBookmark[]): Promise<void> {
-        for (const bookmark of bookmarks) {
-            // Skip if already processed
+    private async processSeparateFileBookmarks(bookmarks: TwitterBookmark[]): Promise<string[]> {
+        // A bookmark listed twice is only written once
+        const seenIds = new Set<string>();
+        const uniqueBookmarks = bookmarks.filter(bookmark => {
+            if (seenIds.has(bookmark.id)) return false;
+            seenIds.add(bookmark.id);
+            return true;
+        });
+        
+        // Paths given to notes in this batch, so two bookmarks with the same file name don't share a note
+        const reservedPaths = new Set<string>();
+        
+        // Write several notes at a time, keeping the bookmarks' order in the result
+        await this.runWithConcurrency(uniqueBookmarks, MAX_CONCURRENT_WRITES, async (bookmark) => {
+            // Skip if already processed, refreshing the existing note if enabled
             if (await this.bookmarkStorage.isBookmarkProcessed(bookmark.id)) {
-                continue;
+                if (this.settings.refreshExistingNotes) {
+                    await this.refreshSeparateNote(bookmark);
+                }
+                return;
             }
 
-            // Generate the file content
-            const fileContent = this.generateMarkdownContent(bookmark);
+            // Generate the file content, marking the generated part so it can be refreshed later
+            const fileContent = wrapNoteRegion(this.generateMarkdownContent(bookmark));
             
-            // Save to file
-            const fileName = this.generateFileName(bookmark);
-            await this.saveToFile(fileName, fileContent);
+            // Save to file, next to any other note that has the same name
+            const filePath = await this.resolveFilePath(this.generateFileName(bookmark), bookmark.id, reservedPaths);
+            const savedFile = await this.saveToFile(filePath, fileContent);
             
-            // Mark as processed
-            await this.bookmarkStorage.markBookmarkAsProcessed(bookmark.id);
+            // Record where the note was written, which also marks it as processed
+            await this.bookmarkStorage.saveBookmark(this.createBookmarkRecord(bookmark, savedFile.path), bookmark);
+        });
+        
+        return uniqueBookmarks.map(bookmark => bookmark.id);
+    }
+
+    /**
+     * Run a task for each item, with at most `limit` tasks running at once.
+     * Once a task fails no new tasks are started; the ones running are allowed to finish and
+     * the first error is thrown.
+     */
+    private async runWithConcurrency<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+        let nextIndex = 0;
+        let firstError: unknown = null;
+        
+        const worker = async () => {
+            while (nextIndex < items.length && firstError === null) {
+                const item = items[nextIndex++];
+                try {
+                    await task(item);
+                } catch (error) {
+                    if (firstError === null) {
+                        firstError = error;
+                    }
+                }
+            }
+        };
+        
+        const workers: Promise<void>[] = [];
+        for (let i = 0; i < Math.min(limit, items.length); i++) {
+            workers.push(worker());
+        }
+        await Promise.all(workers);
+        
+        if (firstError !== null) {
+            throw firstError;
         }
     }
 
     /**
-     * Process bookmarks into a single file
+     * Re-render the plugin-owned parts of an imported bookmark's note, keeping everything the user added
      */
-    private async processSingleFileBookmarks(bookmarks: TwitterBookmark[]): Promise<void> {
-        try {
-            // Normalize file name and make sure it has .md extension
-            const fileName = this.settings.singleFileName || 'twitter-bookmarks.md';
-            const normalizedFileName = fileName.endsWith('.md') ? fileName : `${fileName}.md`;
+    private async refreshSeparateNote(bookmark: TwitterBookmark): Promise<void> {
+        const record = await this.bookmarkStorage.getBookmarkById(bookmark.id);
+        if (!record || record.deletedAt || !(await this.fileExists(record.filePath))) {
+            console.log(`[Bookmark Bridge] No note to refresh for bookmark: ${bookmark.id}`);
+            return;
+        }
+        
+        const existingContent = await this.readFile(record.filePath);
+        const { content, regionUpdated } = refreshNote(existingContent, wrapNoteRegion(this.generateMarkdownContent(bookmark)), this.getStaticPropertyNames());
+        if (!regionUpdated) {
+            console.log(`[Bookmark Bridge] Note has no bookmark-bridge markers, only refreshing frontmatter: ${record.filePath}`);
+        }
+        
+        if (content !== existingContent) {
+            await this.saveToFile(record.filePath, content);
+            console.log(`[Bookmark Bridge] Refreshed note: ${record.filePath}`);
+        }
+        
+        // Keep the cached API data current for offline re-rendering
+        await this.bookmarkStorage.saveBookmarkPayloads([bookmark]);
+    }
+
+    /**
+     * Re-render every imported note and single-file section from the cached API data,
+     * using the current template, filename and folder settings. Makes no network calls.
+     * Only the plugin-owned parts of notes are replaced, as when refreshing during a sync.
+     */
+    public async rerenderAllNotes(): Promise<RerenderReport> {
+        const report: RerenderReport = { updated: 0, moved: 0, unchanged: 0, missingData: 0, notUpdatable: 0, failed: 0 };
+        
+        // Group records by file so each file is read and written once
+        const recordsByFile = new Map<string, BookmarkRecord[]>();
+        for (const record of await this.bookmarkStorage.getAllBookmarks()) {
+            if (record.deletedAt) continue;
+            const fileRecords = recordsByFile.get(record.filePath) || [];
+            fileRecords.push(record);
+            recordsByFile.set(record.filePath, fileRecords);
+        }
+        
+        console.log(`[Bookmark Bridge] Re-rendering ${recordsByFile.size} files from cached bookmark data`);
+        const singleFileName = this.getSingleFilePath(null).split('/').pop();
+        const reservedPaths = new Set<string>();
+        
+        // Save the updated records with a single write at the end
+        await this.bookmarkStorage.transaction(async () => {
+            for (const [filePath, fileRecords] of recordsByFile) {
+                try {
+                    const content = await this.fileExists(filePath) ? await this.readFile(filePath) : null;
+                    const isSingleFile = fileRecords.length > 1
+                        || filePath.split('/').pop() === singleFileName
+                        || (content !== null && content.includes(`<!-- bookmark-bridge:start ${fileRecords[0].tweetId} -->`));
+                
+                    if (isSingleFile) {
+                        await this.rerenderSingleFile(filePath, content, fileRecords, report);
+                    } else {
+                        await this.rerenderSeparateNote(filePath, content, fileRecords[0], reservedPaths, report);
+                    }
+                } catch (error) {
+                    console.error(`[Bookmark Bridge] Error re-rendering ${filePath}:`, error);
+                    report.failed += fileRecords.length;
+                }
+            }
+        });
+        
+        console.log(`[Bookmark Bridge] Re-render complete: ${JSON.stringify(report)}`);
+        return report;
+    }
+
+    /**
+     * Re-render one separate note, moving it if the current filename or folder settings give a different path
+     */
+    private async rerenderSeparateNote(filePath: string, content: string | null, record: BookmarkRecord, reservedPaths: Set<string>, report: RerenderReport): Promise<void> {
+        const bookmark = await this.bookmarkStorage.getBookmarkPayload(record.tweetId);
+        if (!bookmark) {
+            report.missingData++;
+            return;
+        }
+        
+        const generated = wrapNoteRegion(this.generateMarkdownContent(bookmark));
+        const targetPath = await this.resolveFilePath(this.generateFileName(bookmark), record.tweetId, reservedPaths);
+        
+        if (content === null) {
+            // The note is gone without the plugin noticing, so write it again
+            const savedFile = await this.saveToFile(targetPath, generated);
+            await this.bookmarkStorage.saveBookmark({ ...record, filePath: savedFile.path });
+            report.updated++;
+            return;
+        }
+        
+        const refreshed = refreshNote(content, generated, this.getStaticPropertyNames()).content;
+        if (refreshed !== content) {
+            await this.saveToFile(filePath, refreshed);
+            report.updated++;
+        } else {
+            report.unchanged++;
+        }
+        
+        if (targetPath !== filePath) {
+            if (await this.fileExists(targetPath)) {
+                console.log(`[Bookmark Bridge] Not moving ${filePath}, ${targetPath} already exists`);
+                return;
+            }
+            const file = this.app.vault.getAbstractFileByPath(normalizePath(filePath));
+            if (file instanceof TFile) {
+                const lastSlashIndex = targetPath.lastIndexOf('/');
+                if (lastSlashIndex > 0) {
+                    await this.ensureFolderExists(targetPath.substring(0, lastSlashIndex));
+                }
+                // Renaming through the file manager keeps links to the note working
+                await this.app.fileManager.renameFile(file, targetPath);
+                await this.bookmarkStorage.saveBookmark({ ...record, filePath: targetPath });
+                report.moved++;
+            }
+        }
+    }
+
+    /**
+     * Re-render the sections of a single file, or write the file again if it is missing
+     */
+    private async rerenderSingleFile(filePath: string, content: string | null, records: BookmarkRecord[], report: RerenderReport): Promise<void> {
+        let updatedContent = content !== null ? content : SINGLE_FILE_HEADER;
+        let changed = content === null;
+        
+        // Keep the order the bookmarks were imported in when writing the file again
+        const sortedRecords = [...records].sort((a, b) => a.importDate.getTime() - b.importDate.getTime());
+        
+        for (const record of sortedRecords) {
+            const bookmark = await this.bookmarkStorage.getBookmarkPayload(record.tweetId);
+            if (!bookmark) {
+                report.missingData++;
+                continue;
+            }
             
+            const section = wrapSectionRegion(this.generateSingleFileBookmarkContent(bookmark), bookmark.id);
+            if (content === null) {
+                updatedContent = `${updatedContent}\n---\n\n${section}`;
+                report.updated++;
+                continue;
+            }
+            
+            const refreshed = replaceRegion(updatedContent, section, bookmark.id);
+            if (refreshed === null) {
+                report.notUpdatable++;
+            } else if (refreshed !== updatedContent) {
+                updatedContent = refreshed;
+                changed = true;
+                report.updated++;
+            } else {
+                report.unchanged++;
+            }
+        }
+        
+        if (changed) {
+            await this.saveToFile(filePath, updatedContent);
+        }
+    }
+
+    /**
+     * Process bookmarks into a single file, or one file per X bookmark folder
+     */
+    private async processSingleFileBookmarks(bookmarks: TwitterBookmark[]): Promise<string[]> {
+        if (!this.settings.syncBookmarkFolders) {
+            return await this.processSingleFile(this.getSingleFilePath(null), bookmarks);
+        }
+        
+        // Group bookmarks by folder, keeping their original order within each file
+        const bookmarksByFolder = new Map<string | null, TwitterBookmark[]>();
+        for (const bookmark of bookmarks) {
+            const group = bookmarksByFolder.get(bookmark.folder) || [];
+            group.push(bookmark);
+            bookmarksByFolder.set(bookmark.folder, group);
+        }
+        
+        const storedIds: string[] = [];
+        for (const [folder, folderBookmarks] of bookmarksByFolder) {
+            storedIds.push(...await this.processSingleFile(this.getSingleFilePath(folder), folderBookmarks));
+        }
+        return storedIds;
+    }
+
+    /**
+     * Get the path of the single file for an X bookmark folder, or the main single file for null
+     */
+    private getSingleFilePath(folder: string | null): string {
+        // Normalize file name and make sure it has .md extension
+        const fileName = this.settings.singleFileName || 'twitter-bookmarks.md';
+        const normalizedFileName = fileName.endsWith('.md') ? fileName : `${fileName}.md`;
+        
+        // Build the full path using Obsidian's path normalization to handle OS differences
+        const folderPath = normalizePath(this.getBookmarkFolderPath(folder));
+        return normalizePath(`${folderPath}/${normalizedFileName}`);
+    }
+
+    /**
+     * Get the vault folder for bookmarks in an X bookmark folder.
+     * Bookmarks outside any folder, or with folder syncing disabled, go to the target folder.
+     */
+    private getBookmarkFolderPath(folder: string | null): string {
+        if (!this.settings.syncBookmarkFolders || !folder) {
+            return this.settings.targetFolder;
+        }
+        
+        // Strip characters that are not allowed in folder names
+        const folderName = folder.replace(/[\\/:*?"<>|]/g, '').trim();
+        return folderName ? `${this.settings.targetFolder}/${folderName}` : this.settings.targetFolder;
+    }
+
+    /**
+     * Get the folder for a bookmark's separate note from the first routing rule it meets,
+     * or from the X bookmark folder if no rule matches
+     * @throws TemplateSyntaxError if the rule's folder is not a valid template
+     */
+    public getNoteRoute(bookmark: TwitterBookmark): NoteRoute {
+        const ruleIndex = findRoutingRule(this.settings.folderRoutingRules, bookmark);
+        if (ruleIndex === -1) {
+            return { folderPath: normalizePath(this.getBookmarkFolderPath(bookmark.folder)), ruleIndex };
+        }
+        
+        const rendered = renderTemplate(this.settings.folderRoutingRules[ruleIndex].folder, this.getTemplateData(bookmark));
+        const folder = sanitizeFolderPath(rendered);
+        const folderPath = folder ? `${this.settings.targetFolder}/${folder}` : this.settings.targetFolder;
+        return { folderPath: normalizePath(folderPath), ruleIndex };
+    }
+
+    /**
+     * Append bookmarks to a single file
+     * @returns IDs of the bookmarks that are stored in the file once it has been saved
+     */
+    private async processSingleFile(filePath: string, bookmarks: TwitterBookmark[]): Promise<string[]> {
+        try {
             // Make sure the target folder exists
             await this.ensureTargetFolderExists();
             
-            // Build the full path using Obsidian's path normalization to handle OS differences
-            const folderPath = normalizePath(this.settings.targetFolder);
-            const filePath = normalizePath(`${folderPath}/${normalizedFileName}`);
-            
             console.log(`[Bookmark Bridge] Processing bookmarks into single file: ${filePath}`);
             
             // Get existing content if file exists
@@ -109,45 +389,62 @@ export class BookmarkProcessor {
             } else {
                 console.log(`[Bookmark Bridge] Single file does not exist, creating new file with header`);
                 // Create a header for the file if it's new
-                existingContent = `# Twitter Bookmarks\n\nA collection of your bookmarked tweets from Twitter/X.\n\n`;
+                existingContent = SINGLE_FILE_HEADER;
             }
             
             // Process each new bookmark
-            let newBookmarksAdded = false;
-            let processedCount = 0;
+            const newRecords: BookmarkRecord[] = [];
+            const storedIds: string[] = [];
+            const newBookmarks: TwitterBookmark[] = [];
+            const refreshedBookmarks: TwitterBookmark[] = [];
             
             console.log(`[Bookmark Bridge] Processing ${bookmarks.length} bookmarks for single file storage`);
             
             for (const bookmark of bookmarks) {
                 try {
                     // Skip if already processed
-                    if (await this.bookmarkStorage.isBookmarkProcessed(bookmark.id)) {
+                    if (await this.bookmarkStorage.isBookmarkProcessed(bookmark.id) || storedIds.includes(bookmark.id)) {
+                        // Refresh the bookmark's section in place if enabled and it is in this file
+                        if (this.settings.refreshExistingNotes) {
+                            const sectionContent = wrapSectionRegion(this.generateSingleFileBookmarkContent(bookmark), bookmark.id);
+                            const refreshedContent = replaceRegion(existingContent, sectionContent, bookmark.id);
+                            if (refreshedContent !== null && refreshedContent !== existingContent) {
+                                console.log(`[Bookmark Bridge] Refreshing section for bookmark: ${bookmark.id}`);
+                                existingContent = refreshedContent;
+                                refreshedBookmarks.push(bookmark);
+                            }
+                        }
                         console.log(`[Bookmark Bridge] Skipping already processed bookmark: ${bookmark.id}`);
+                        storedIds.push(bookmark.id);
                         continue;
                     }
                     
-                    // Generate the markdown for this bookmark
+                    // Generate the markdown for this bookmark, marking it so it can be refreshed later
                     console.log(`[Bookmark Bridge] Generating content for bookmark: ${bookmark.id}`);
-                    const bookmarkContent = this.generateSingleFileBookmarkContent(bookmark);
+                    const bookmarkContent = wrapSectionRegion(this.generateSingleFileBookmarkContent(bookmark), bookmark.id);
                     
                     // Add to existing content with a separator
                     existingContent = `${existingContent}\n---\n\n${bookmarkContent}`;
                     
-                    // Mark as processed
-                    await this.bookmarkStorage.markBookmarkAsProcessed(bookmark.id);
-                    newBookmarksAdded = true;
-                    processedCount++;
+                    // Recorded once the file has been saved
+                    newRecords.push(this.createBookmarkRecord(bookmark, filePath));
+                    newBookmarks.push(bookmark);
+                    storedIds.push(bookmark.id);
                 } catch (bookmarkError) {
                     console.error(`[Bookmark Bridge] Error processing bookmark ${bookmark.id}:`, bookmarkError);
                 }
             }
             
-            // Only save if we added new bookmarks
-            if (newBookmarksAdded) {
-                console.log(`[Bookmark Bridge] Saving ${processedCount} new bookmarks to single file`);
+            // Only save if we added or refreshed bookmarks
+            if (newRecords.length > 0 || refreshedBookmarks.length > 0) {
+                console.log(`[Bookmark Bridge] Saving ${newRecords.length} new and ${refreshedBookmarks.length} refreshed bookmarks to single file`);
                 try {
                     const savedFile = await this.saveToFile(filePath, existingContent);
                     console.log(`[Bookmark Bridge] Successfully saved to file: ${savedFile.path}`);
+                    
+                    // Record where the bookmarks were written, which also marks them as processed
+                    await this.bookmarkStorage.saveBookmarks(newRecords.map(record => ({ ...record, filePath: savedFile.path })), newBookmarks);
+                    await this.bookmarkStorage.saveBookmarkPayloads(refreshedBookmarks);
                 } catch (saveError) {
                     console.error(`[Bookmark Bridge] Error saving single file:`, saveError);
                     throw saveError;
@@ -155,18 +452,32 @@ export class BookmarkProcessor {
             } else {
                 console.log(`[Bookmark Bridge] No new bookmarks to add to single file`);
             }
+            
+            return storedIds;
         } catch (error) {
-            console.error(`[Bookmark Bridge] Error in processSingleFileBookmarks:`, error);
+            console.error(`[Bookmark Bridge] Error in processSingleFile:`, error);
             throw error;
         }
     }
 
+    /**
+     * Create the index record for a bookmark written to a note
+     */
+    private createBookmarkRecord(bookmark: TwitterBookmark, filePath: string): BookmarkRecord {
+        return {
+            tweetId: bookmark.id,
+            filePath,
+            importDate: new Date(),
+            folder: bookmark.folder || undefined
+        };
+    }
+
     /**
      * Generate markdown content for a bookmark in the single file format
      */
     private generateSingleFileBookmarkContent(bookmark: TwitterBookmark): string {
         if (this.settings.useCustomTemplate) {
-            return this.renderTemplate(this.settings.template, bookmark);
+            return this.renderTemplate(this.selectTemplate(bookmark), bookmark);
         }
         
         // Default template if custom templates are not enabled
@@ -174,8 +485,21 @@ export class BookmarkProcessor {
         const time = bookmark.createdAt.toLocaleTimeString();
         
         let content = `## Tweet by @${bookmark.authorUsername} - ${date} ${time}\n\n`;
+        
+        if (bookmark.inReplyTo) {
+            content += this.generateReferencedTweetContent('Replying to', bookmark.inReplyTo);
+        }
+        
         content += `${bookmark.text}\n\n`;
         
+        if (bookmark.article) {
+            content += this.generateArticleContent('###', bookmark.article);
+        }
+        
+        if (bookmark.quotedTweet) {
+            content += this.generateReferencedTweetContent('Quoting', bookmark.quotedTweet);
+        }
+        
         if (bookmark.mediaUrls.length > 0) {
             content += `### Media\n\n`;
             for (const mediaUrl of bookmark.mediaUrls) {
@@ -183,69 +507,168 @@ export class BookmarkProcessor {
             }
         }
         
+        if (bookmark.links.length > 0) {
+            content += `### Links\n\n`;
+            content += this.generateLinksContent(bookmark.links);
+        }
+        
+        if (bookmark.thread.length > 0) {
+            content += `### Thread\n\n`;
+            content += this.generateThreadContent(bookmark.thread);
+        }
+        
         content += `[View on Twitter](${bookmark.tweetUrl})`;
         
         return content;
     }
 
     /**
-     * Render a template with bookmark data
+     * Generate the default markdown for a bookmark's thread, one tweet per paragraph
      */
-    private renderTemplate(template: string, bookmark: TwitterBookmark): string {
-        // Get date and time for formatting
-        const date = bookmark.createdAt.toLocaleDateString();
-        const time = bookmark.createdAt.toLocaleTimeString();
+    private generateThreadContent(thread: TwitterThreadTweet[]): string {
+        let content = '';
         
-        // Basic replacements
-        let content = template
-            .replace(/{{id}}/g, bookmark.id)
-            .replace(/{{text}}/g, bookmark.text)
-            .replace(/{{authorUsername}}/g, bookmark.authorUsername)
-            .replace(/{{authorName}}/g, bookmark.authorName)
-            .replace(/{{authorId}}/g, bookmark.authorId)
-            .replace(/{{date}}/g, date)
-            .replace(/{{time}}/g, time)
-            .replace(/{{tweetUrl}}/g, bookmark.tweetUrl);
+        for (const threadTweet of thread) {
+            content += `${threadTweet.text}\n\n`;
+            for (const mediaUrl of threadTweet.mediaUrls) {
+                content += `![](${mediaUrl})\n\n`;
+            }
+        }
         
-        // Handle conditional block for media
-        const hasMedia = bookmark.mediaUrls.length > 0;
+        return content;
+    }
+
+    /**
+     * Generate the default markdown for a quoted or replied-to tweet as a blockquote
+     */
+    private generateReferencedTweetContent(label: string, referencedTweet: TwitterReferencedTweet): string {
+        let content = `> ${label} **@${referencedTweet.authorUsername}** (${referencedTweet.authorName}):\n>\n`;
+        content += `${this.formatBlockquote(referencedTweet.text)}\n`;
         
-        // Handle {{#hasMedia}}...{{/hasMedia}} blocks
-        content = this.processConditionalBlock(content, 'hasMedia', hasMedia);
+        for (const mediaUrl of referencedTweet.mediaUrls) {
+            content += `>\n> ![](${mediaUrl})\n`;
+        }
         
-        // Handle media URL list {{#mediaUrls}}{{.}}{{/mediaUrls}}
-        content = this.processArrayBlock(content, 'mediaUrls', bookmark.mediaUrls);
+        content += `>\n> [View on Twitter](${referencedTweet.tweetUrl})\n\n`;
         
         return content;
     }
-    
+
     /**
-     * Process conditional blocks in templates
+     * Generate the default markdown list of shared links with their titles and descriptions
      */
-    private processConditionalBlock(content: string, blockName: string, condition: boolean): string {
-        const blockRegex = new RegExp(`{{#${blockName}}}([\\s\\S]*?){{/${blockName}}}`, 'g');
+    private generateLinksContent(links: TwitterLink[]): string {
+        let content = '';
         
-        if (condition) {
-            // If condition is true, keep the content but remove the tags
-            return content.replace(blockRegex, (match, blockContent) => blockContent);
-        } else {
-            // If condition is false, remove the entire block
-            return content.replace(blockRegex, '');
+        for (const link of links) {
+            content += `- [${link.title || link.displayUrl}](${link.url})`;
+            if (link.description) {
+                content += ` - ${link.description}`;
+            }
+            content += `\n`;
         }
+        
+        return `${content}\n`;
     }
-    
+
     /**
-     * Process array blocks in templates
+     * Generate the default markdown for an X Article's title and preview
      */
-    private processArrayBlock(content: string, blockName: string, array: string[]): string {
-        const blockRegex = new RegExp(`{{#${blockName}}}([\\s\\S]*?){{/${blockName}}}`, 'g');
+    private generateArticleContent(headingLevel: string, article: TwitterArticle): string {
+        let content = `${headingLevel} Article: ${article.title}\n\n`;
         
-        return content.replace(blockRegex, (match, blockContent) => {
-            if (array.length === 0) return '';
-            
-            // Replace {{.}} with each item in the array
-            return array.map(item => blockContent.replace(/{{\.}}/g, item)).join('');
-        });
+        if (article.previewText) {
+            content += `${article.previewText}\n\n`;
+        }
+        
+        return content;
+    }
+
+    /**
+     * Prefix every line of the text with "> " so it renders as a blockquote
+     */
+    private formatBlockquote(text: string): string {
+        return text.split('\n').map(line => line ? `> ${line}` : '>').join('\n');
+    }
+
+    /**
+     * Map a referenced tweet to the fields available inside its template section
+     */
+    private getReferencedTweetFields(referencedTweet: TwitterReferencedTweet): Record<string, unknown> {
+        return {
+            id: referencedTweet.id,
+            text: referencedTweet.text,
+            blockquote: this.formatBlockquote(referencedTweet.text),
+            authorId: referencedTweet.authorId,
+            authorUsername: referencedTweet.authorUsername,
+            authorName: referencedTweet.authorName,
+            createdAt: referencedTweet.createdAt,
+            date: referencedTweet.createdAt.toLocaleDateString(),
+            time: referencedTweet.createdAt.toLocaleTimeString(),
+            created_at: referencedTweet.createdAt.toISOString(),
+            tweetUrl: referencedTweet.tweetUrl,
+            hasMedia: referencedTweet.mediaUrls.length > 0,
+            mediaUrls: referencedTweet.mediaUrls
+        };
+    }
+
+    /**
+     * Get the values available to templates: the whole bookmark, with its dates and metrics
+     * in the formats the template variables have always used
+     */
+    private getTemplateData(bookmark: TwitterBookmark): Record<string, unknown> {
+        // Engagement metrics are blank when X did not return them
+        const metrics = bookmark.metrics;
+        const metricValue = (value: number | undefined) => value === undefined ? '' : String(value);
+        
+        return {
+            ...bookmark,
+            date: bookmark.createdAt.toLocaleDateString(),
+            time: bookmark.createdAt.toLocaleTimeString(),
+            created_at: bookmark.createdAt.toISOString(),
+            year: String(bookmark.createdAt.getFullYear()),
+            month: `0${bookmark.createdAt.getMonth() + 1}`.slice(-2),
+            day: `0${bookmark.createdAt.getDate()}`.slice(-2),
+            folder: bookmark.folder || '',
+            frontmatter: this.generateFrontmatter(bookmark),
+            retweet_count: metricValue(metrics?.retweetCount),
+            reply_count: metricValue(metrics?.replyCount),
+            like_count: metricValue(metrics?.likeCount),
+            quote_count: metricValue(metrics?.quoteCount),
+            hasMetrics: metrics !== null,
+            hasMedia: bookmark.mediaUrls.length > 0,
+            hasLinks: bookmark.links.length > 0,
+            hasThread: bookmark.thread.length > 0,
+            links: bookmark.links.map(link => ({
+                ...link,
+                title: link.title || link.displayUrl
+            })),
+            thread: bookmark.thread.map(threadTweet => ({
+                ...threadTweet,
+                date: threadTweet.createdAt.toLocaleDateString(),
+                time: threadTweet.createdAt.toLocaleTimeString(),
+                created_at: threadTweet.createdAt.toISOString(),
+                hasMedia: threadTweet.mediaUrls.length > 0
+            })),
+            quotedTweet: bookmark.quotedTweet ? this.getReferencedTweetFields(bookmark.quotedTweet) : null,
+            inReplyTo: bookmark.inReplyTo ? this.getReferencedTweetFields(bookmark.inReplyTo) : null
+        };
+    }
+
+    /**
+     * Get the custom template for a bookmark: the first conditional template it meets, or the main template
+     */
+    private selectTemplate(bookmark: TwitterBookmark): string {
+        const conditionalTemplate = findConditionalTemplate(this.settings.conditionalTemplates, bookmark);
+        return conditionalTemplate ? conditionalTemplate.template : this.settings.template;
+    }
+
+    /**
+     * Render a template with bookmark data
+     * @throws TemplateSyntaxError if the template is not valid
+     */
+    private renderTemplate(template: string, bookmark: TwitterBookmark): string {
+        return renderTemplate(template, this.getTemplateData(bookmark));
     }
 
     private async ensureTargetFolderExists(): Promise<void> {
@@ -258,27 +681,55 @@ export class BookmarkProcessor {
         }
     }
 
+    /**
+     * Generate a note's frontmatter, with its --- delimiters, from the selected properties
+     * and the static properties in the settings
+     */
+    private generateFrontmatter(bookmark: TwitterBookmark): string {
+        const properties = getBookmarkProperties(bookmark, this.settings.frontmatterProperties);
+        const staticProperties = parseStaticProperties(this.settings.staticFrontmatter).properties;
+        for (const name in staticProperties) {
+            // Generated properties take precedence, so tweet_id can't be replaced
+            if (!(name in properties)) {
+                properties[name] = staticProperties[name];
+            }
+        }
+        return `---\n${serializeFrontmatter(properties)}\n---`;
+    }
+
+    /**
+     * Get the names of the static frontmatter properties, which are only set when a note is created
+     */
+    private getStaticPropertyNames(): string[] {
+        return Object.keys(parseStaticProperties(this.settings.staticFrontmatter).properties);
+    }
+
     private generateMarkdownContent(bookmark: TwitterBookmark): string {
         if (this.settings.useCustomTemplate) {
-            return this.renderTemplate(this.settings.template, bookmark);
+            return this.renderTemplate(this.selectTemplate(bookmark), bookmark);
         }
         
         // Default template if custom templates are not enabled
-        const date = bookmark.createdAt.toLocaleDateString();
-        const time = bookmark.createdAt.toLocaleTimeString();
-        
-        let content = `---
-tweet_id: "${bookmark.id}"
-author: "@${bookmark.authorUsername} (${bookmark.authorName})"
-date: "${date} ${time}"
----
+        let content = `${this.generateFrontmatter(bookmark)}
 
 # Tweet by @${bookmark.authorUsername}
 
-${bookmark.text}
-
 `;
 
+        if (bookmark.inReplyTo) {
+            content += this.generateReferencedTweetContent('Replying to', bookmark.inReplyTo);
+        }
+        
+        content += `${bookmark.text}\n\n`;
+        
+        if (bookmark.article) {
+            content += this.generateArticleContent('##', bookmark.article);
+        }
+        
+        if (bookmark.quotedTweet) {
+            content += this.generateReferencedTweetContent('Quoting', bookmark.quotedTweet);
+        }
+
         if (bookmark.mediaUrls.length > 0) {
             content += `## Media\n\n`;
             for (const mediaUrl of bookmark.mediaUrls) {
@@ -286,21 +737,71 @@ ${bookmark.text}
             }
         }
         
+        if (bookmark.links.length > 0) {
+            content += `## Links\n\n`;
+            content += this.generateLinksContent(bookmark.links);
+        }
+        
+        if (bookmark.thread.length > 0) {
+            content += `## Thread\n\n`;
+            content += this.generateThreadContent(bookmark.thread);
+        }
+        
         content += `[View on Twitter](${bookmark.tweetUrl})`;
         
         return content;
     }
 
+    /**
+     * Get the path a bookmark's note would have, from the file name template
+     * The path may belong to another bookmark's note; use resolveFilePath before writing to it.
+     */
     private generateFileName(bookmark: TwitterBookmark): string {
-        // Create a filename based on ID to prevent duplication issues
-        // Format: Tweet-{id}-{truncated-text}.md
-        const sanitizedText = bookmark.text
-            .replace(/[^\w\s]/gi, '') // Remove special characters
-            .trim()
-            .replace(/\s+/g, '-') // Replace spaces with hyphens
-            .substring(0, 30); // Limit length
+        const rendered = renderTemplate(this.settings.fileNameTemplate, this.getTemplateData(bookmark));
+        const fileName = sanitizeFileName(rendered, this.settings.fileNameMaxLength) || `Tweet-${bookmark.id}`;
         
-        return `${this.settings.targetFolder}/Tweet-${bookmark.id}-${sanitizedText}.md`;
+        return normalizePath(`${this.getNoteRoute(bookmark).folderPath}/${fileName}.md`);
+    }
+
+    /**
+     * Find a path for a bookmark's note that no other note uses, adding " 2", " 3", ... to the name if needed
+     * @param filePath The path from the file name template
+     * @param tweetId The bookmark the note is for; its own note's path is never treated as taken
+     * @param reservedPaths Paths already given to other notes in the same run, updated with the result
+     */
+    private async resolveFilePath(filePath: string, tweetId: string, reservedPaths: Set<string>): Promise<string> {
+        const basePath = filePath.replace(/\.md$/, '');
+        
+        for (let suffix = 1; ; suffix++) {
+            const candidate = suffix === 1 ? filePath : `${basePath} ${suffix}.md`;
+            // Names differing only in case are the same file on Windows and macOS
+            const key = candidate.toLowerCase();
+            if (reservedPaths.has(key)) continue;
+            
+            // Reserve the path before checking it, so notes written at the same time can't both take it
+            reservedPaths.add(key);
+            if (!(await this.fileExists(candidate)) || await this.isNoteOfBookmark(candidate, tweetId)) {
+                return candidate;
+            }
+            reservedPaths.delete(key);
+        }
+    }
+
+    /**
+     * Check if an existing note belongs to a bookmark, from the bookmark's record or the note's tweet_id
+     */
+    private async isNoteOfBookmark(filePath: string, tweetId: string): Promise<boolean> {
+        const record = await this.bookmarkStorage.getBookmarkById(tweetId);
+        if (record && !record.deletedAt && record.filePath.toLowerCase() === filePath.toLowerCase()) {
+            return true;
+        }
+        
+        const file = this.app.vault.getAbstractFileByPath(filePath);
+        if (!(file instanceof TFile)) {
+            return false;
+        }
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        return frontmatter !== undefined && String(frontmatter.tweet_id) === tweetId;
     }
 
     /**
@@ -351,7 +852,14 @@ ${bookmark.text}
         if (!(await this.app.vault.adapter.exists(normalizedPath))) {
             console.log(`[Bookmark Bridge] Folder doesn't exist, creating: ${normalizedPath}`);
             // Create folder including any necessary parent folders
-            await this.app.vault.createFolder(normalizedPath);
+            try {
+                await this.app.vault.createFolder(normalizedPath);
+            } catch (error) {
+                // Another note written at the same time may have created it already
+                if (!(await this.app.vault.adapter.exists(normalizedPath))) {
+                    throw error;
+                }
+            }
         } else {
             console.log(`[Bookmark Bridge] Folder already exists: ${normalizedPath}`);
         }
@@ -1,11 +1,55 @@
 import { App } from 'obsidian';
+import { BookmarkPage, SyncCursor, TwitterBookmark } from '../services/twitter-service';
+import { getLatestVersion, Migration, runMigrations } from './migrations';
 
 /**
- * Interface for storing processed bookmarks
- * Maps bookmark ID to timestamp when it was processed
+ * A value stamped with the time it was last changed, or a tombstone if the value was removed
+ * Lets the files written by different devices be merged entry by entry, latest change wins
  */
-interface ProcessedBookmarks {
-    [key: string]: number;
+interface StoredEntry<T> {
+    value: T | null;
+    updatedAt: number;
+}
+
+/**
+ * Bookmark record as it is serialized to JSON
+ */
+export type SerializedBookmarkRecord = Omit<BookmarkRecord, 'importDate'> & { importDate: string };
+
+/**
+ * Normalized API data for a bookmark as it is serialized to JSON, with dates as strings
+ */
+export type SerializedBookmark = Record<string, unknown>;
+
+/**
+ * Everything BookmarkStorage keeps, keyed by tweet ID
+ */
+interface DataSections {
+    processedBookmarks: Record<string, StoredEntry<number>>;
+    bookmarkRecords: Record<string, StoredEntry<SerializedBookmarkRecord>>;
+    pendingRemovals: Record<string, StoredEntry<PendingRemoval>>;
+    bookmarkPayloads: Record<string, StoredEntry<SerializedBookmark>>;
+}
+
+/**
+ * Contents of one device's data file
+ * Each device only writes its own file, so file sync never has to resolve conflicting writes.
+ * bookmarkPayloads is saved in the device's payload files instead; only files written by
+ * earlier versions of the plugin have payloads in it.
+ */
+interface DeviceDataFile extends DataSections {
+    version: number;
+    deviceId: string;
+}
+
+/**
+ * Contents of one of a device's payload files
+ * Cached API data is much larger than the rest, so it is split over several files and only
+ * the files holding a changed payload are written
+ */
+interface PayloadFile {
+    deviceId: string;
+    bookmarkPayloads: Record<string, StoredEntry<SerializedBookmark>>;
 }
 
 /**
@@ -15,81 +59,557 @@ export interface BookmarkRecord {
     tweetId: string;
     filePath: string;
     importDate: Date;
+    folder?: string; // X bookmark folder the bookmark was filed in, if any
+    deletedAt?: number; // When the user deleted the note, if it was deleted
+    unavailableAt?: number; // When X stopped returning the tweet of a deleted note, so it isn't looked up again
+}
+
+/**
+ * Interface for a bookmark that was imported but could not be removed from X yet
+ */
+export interface PendingRemoval {
+    tweetId: string;
+    attempts: number;
+    lastError: string;
+    lastAttempt: number;
+}
+
+/**
+ * The current value of everything BookmarkStorage keeps, without change times or removed entries
+ * Used for backups, which are restored as new changes
+ */
+export interface BookmarkDataSnapshot {
+    processedBookmarks: Record<string, number>;
+    bookmarkRecords: Record<string, SerializedBookmarkRecord>;
+    pendingRemovals: Record<string, PendingRemoval>;
+    bookmarkPayloads: Record<string, SerializedBookmark>;
+}
+
+/**
+ * How many entries restoring a snapshot changed, across all sections
+ */
+export interface SnapshotRestoreResult {
+    added: number; // Entries that did not exist before
+    replaced: number; // Existing entries overwritten by the snapshot
+    kept: number; // Existing entries left as they were because merging keeps them
+    removed: number; // Entries not in the snapshot that replacing removed
+}
+
+/**
+ * A fetched page of bookmarks that has not been fully processed yet
+ */
+export interface JournalPage extends BookmarkPage {
+    id: string;
+    fetchedAt: number;
+}
+
+/**
+ * Journal page as it is serialized to JSON
+ */
+interface SerializedJournalPage {
+    id: string;
+    fetchedAt: number;
+    bookmarks: SerializedBookmark[];
+    cursor: SyncCursor;
+}
+
+const DATA_SECTIONS: (keyof DataSections)[] = ['processedBookmarks', 'bookmarkRecords', 'pendingRemovals', 'bookmarkPayloads'];
+
+/**
+ * Upgrades for data files written by older versions of the plugin, in order
+ * Files from other devices are upgraded in memory when read; this device's file is saved in the new format.
+ */
+const DATA_FILE_MIGRATIONS: Migration[] = [
+    {
+        version: 2,
+        description: 'Add the sections that version 1 files may be missing, such as cached bookmark data',
+        migrate: (data) => {
+            for (const section of DATA_SECTIONS) {
+                if (!data[section]) {
+                    data[section] = {};
+                }
+            }
+        }
+    }
+];
+
+const DATA_FILE_VERSION = getLatestVersion(DATA_FILE_MIGRATIONS);
+const PAYLOAD_FILE_SIZE = 500; // Payloads per payload file
+const DEVICE_ID_KEY = 'bookmark-bridge-device-id';
+
+/**
+ * Get the ID of this Obsidian install, generating it on first use
+ * Kept in localStorage because it must not sync to other devices
+ */
+export function getDeviceId(): string {
+    let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+        deviceId = `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`;
+        localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
 }
 
 /**
  * Handles storage and retrieval of bookmark processing status
- * Provides persistence for tracking which bookmarks have already been imported
+ * Provides persistence for tracking which bookmarks have already been imported.
+ * Data lives in the plugin folder inside the vault: each device writes its own JSON file and reads
+ * all of them, merging entries by their last change. Other devices' files are only seen with a sync
+ * method that copies the whole plugin folder; Obsidian Sync only copies data.json.
  */
 export class BookmarkStorage {
     private app: App;
-    private processedBookmarks: ProcessedBookmarks = {};
-    private bookmarkRecords: Record<string, BookmarkRecord> = {};
-    private STORAGE_KEY = 'bookmark-bridge-processed';
-    private RECORDS_KEY = 'bookmark-bridge-records';
-    private dataLoaded = false;
+    private dataFolder: string;
+    private deviceId: string;
+    private processedBookmarks: Record<string, StoredEntry<number>> = {};
+    private bookmarkRecords: Record<string, StoredEntry<SerializedBookmarkRecord>> = {};
+    private pendingRemovals: Record<string, StoredEntry<PendingRemoval>> = {};
+    private bookmarkPayloads: Record<string, StoredEntry<SerializedBookmark>> = {};
+    private localData: DeviceDataFile;
+    private payloadFileIndexes: Record<string, number> = {}; // Which of this device's payload files each payload is saved in
+    private payloadFileSizes: number[] = [];
+    private savedPayloads: Record<string, StoredEntry<SerializedBookmark>> = {}; // This device's payloads as last read or written
+    private LEGACY_STORAGE_KEY = 'bookmark-bridge-processed';
+    private LEGACY_RECORDS_KEY = 'bookmark-bridge-records';
+    private LEGACY_REMOVALS_KEY = 'bookmark-bridge-pending-removals';
+    private journal: SerializedJournalPage[] | null = null;
+    private loadPromise: Promise<void> | null = null;
+    private saveQueue: Promise<void> = Promise.resolve();
+    private transactionDepth: number = 0;
+    private hasUnsavedChanges: boolean = false;
 
     /**
      * Creates a new BookmarkStorage instance
      * @param app The Obsidian App instance
+     * @param dataFolder Vault-relative folder for the per-device data files
      */
-    constructor(app: App) {
+    constructor(app: App, dataFolder: string) {
         this.app = app;
+        this.dataFolder = dataFolder;
+        this.deviceId = getDeviceId();
+        this.localData = this.createEmptyDataFile();
         this.loadData();
     }
 
+    private createEmptyDataFile(): DeviceDataFile {
+        return {
+            version: DATA_FILE_VERSION,
+            deviceId: this.deviceId,
+            processedBookmarks: {},
+            bookmarkRecords: {},
+            pendingRemovals: {},
+            bookmarkPayloads: {}
+        };
+    }
+
+    private get localDataPath(): string {
+        return `${this.dataFolder}/${this.deviceId}.json`;
+    }
+
+    private get localPayloadFolder(): string {
+        // In a subfolder so the payload files aren't read as data files
+        return `${this.dataFolder}/payloads/${this.deviceId}`;
+    }
+
+    private get journalPath(): string {
+        // In a subfolder so it isn't read as another device's data file
+        return `${this.dataFolder}/journal/${this.deviceId}.json`;
+    }
+
+    /**
+     * Load processed bookmarks and records from the data files of all devices
+     * Only loads once; use refresh() to pick up changes synced from other devices
+     */
+    private loadData(): Promise<void> {
+        if (!this.loadPromise) {
+            this.loadPromise = this.readDataFiles()
+                .then(() => this.migrateLocalStorage())
+                .then(() => this.migratePayloads());
+        }
+        return this.loadPromise;
+    }
+
+    /**
+     * Re-read the data files to pick up bookmarks imported on other devices
+     */
+    public async refresh(): Promise<void> {
+        await this.loadData();
+        await this.readDataFiles();
+    }
+
+    /**
+     * Read every device's data file and merge them, keeping the latest change of each entry
+     */
+    private async readDataFiles(): Promise<void> {
+        const adapter = this.app.vault.adapter;
+        const merged: DataSections = {
+            processedBookmarks: {},
+            bookmarkRecords: {},
+            pendingRemovals: {},
+            bookmarkPayloads: {}
+        };
+        
+        try {
+            if (await adapter.exists(this.dataFolder)) {
+                const listing = await adapter.list(this.dataFolder);
+                for (const filePath of listing.files) {
+                    if (!filePath.endsWith('.json')) continue;
+                    
+                    try {
+                        const data = this.parseDataFile(filePath, await adapter.read(filePath));
+                        if (filePath === this.localDataPath) {
+                            // Keep writes made since the file was last saved
+                            this.localData = this.mergeDataFiles(data, this.localData);
+                        }
+                        this.mergeSections(merged, data);
+                    } catch (error) {
+                        console.error(`Failed to read bookmark data file ${filePath}:`, error);
+                    }
+                }
+            }
+            await this.readPayloadFiles(merged);
+        } catch (error) {
+            console.error('Failed to load bookmark data:', error);
+        }
+        
+        // Writes from this device that haven't been saved yet
+        this.mergeSections(merged, this.localData);
+        
+        this.processedBookmarks = merged.processedBookmarks;
+        this.bookmarkRecords = merged.bookmarkRecords;
+        this.pendingRemovals = merged.pendingRemovals;
+        this.bookmarkPayloads = merged.bookmarkPayloads;
+    }
+
     /**
-     * Load previously processed bookmarks and records from plugin data
-     * Uses localStorage for persistence across plugin reloads
+     * Read every device's payload files into merged, remembering which file each of this device's
+     * payloads is saved in
      */
-    private async loadData(): Promise<void> {
-        if (this.dataLoaded) return;
+    private async readPayloadFiles(merged: DataSections): Promise<void> {
+        const adapter = this.app.vault.adapter;
+        const payloadFolder = `${this.dataFolder}/payloads`;
+        if (!(await adapter.exists(payloadFolder))) return;
         
+        for (const deviceFolder of (await adapter.list(payloadFolder)).folders) {
+            for (const filePath of (await adapter.list(deviceFolder)).files) {
+                const fileName = filePath.match(/\/(\d+)\.json$/);
+                if (!fileName) continue;
+                
+                try {
+                    const entries = this.parsePayloadFile(filePath, await adapter.read(filePath));
+                    if (deviceFolder === this.localPayloadFolder) {
+                        for (const key in entries) {
+                            this.payloadFileIndexes[key] = Number(fileName[1]);
+                            this.savedPayloads[key] = entries[key];
+                        }
+                        // Keep writes made since the file was last saved
+                        this.mergeEntries(this.localData.bookmarkPayloads, entries);
+                    }
+                    this.mergeEntries(merged.bookmarkPayloads, entries);
+                } catch (error) {
+                    console.error(`Failed to read bookmark payload file ${filePath}:`, error);
+                }
+            }
+        }
+        
+        this.payloadFileSizes = [];
+        for (const key in this.payloadFileIndexes) {
+            const index = this.payloadFileIndexes[key];
+            this.payloadFileSizes[index] = (this.payloadFileSizes[index] || 0) + 1;
+        }
+    }
+
+    /**
+     * Parse a data file, upgrade it to the current version and drop entries that are not valid,
+     * reporting what was dropped
+     */
+    private parseDataFile(filePath: string, json: string): DeviceDataFile {
+        const data = JSON.parse(json) as Record<string, unknown>;
+        if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+            throw new Error('not a bookmark data file');
+        }
+        
+        const savedVersion = typeof data.version === 'number' ? data.version : 0;
+        if (savedVersion > DATA_FILE_VERSION) {
+            console.warn(`[Bookmark Bridge] ${filePath} was written by a newer version of the plugin (version ${savedVersion}); reading the parts this version understands`);
+        }
+        const migration = runMigrations(data, savedVersion, DATA_FILE_MIGRATIONS);
+        data.version = migration.toVersion;
+        
+        for (const section of DATA_SECTIONS) {
+            data[section] = this.getValidEntries(filePath, section, data[section]);
+        }
+        
+        return data as unknown as DeviceDataFile;
+    }
+
+    /**
+     * Parse a payload file and drop entries that are not valid, reporting what was dropped
+     * @returns The payload entries
+     */
+    private parsePayloadFile(filePath: string, json: string): Record<string, StoredEntry<SerializedBookmark>> {
+        const data = JSON.parse(json) as Partial<PayloadFile>;
+        if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+            throw new Error('not a bookmark payload file');
+        }
+        return this.getValidEntries(filePath, 'bookmarkPayloads', data.bookmarkPayloads) as Record<string, StoredEntry<SerializedBookmark>>;
+    }
+
+    /**
+     * Drop the entries of a section that are not valid, reporting what was dropped
+     */
+    private getValidEntries(filePath: string, section: keyof DataSections, entries: unknown): Record<string, StoredEntry<unknown>> {
+        if (typeof entries !== 'object' || entries === null || Array.isArray(entries)) {
+            console.warn(`[Bookmark Bridge] Ignoring ${section} in ${filePath}: not a set of entries`);
+            return {};
+        }
+        
+        const invalidKeys = Object.keys(entries).filter(key => !this.isValidEntry((entries as Record<string, unknown>)[key]));
+        for (const key of invalidKeys) {
+            delete (entries as Record<string, unknown>)[key];
+        }
+        if (invalidKeys.length > 0) {
+            console.warn(`[Bookmark Bridge] Ignoring ${invalidKeys.length} invalid ${section} entries in ${filePath}: ${invalidKeys.slice(0, 10).join(', ')}`);
+        }
+        return entries as Record<string, StoredEntry<unknown>>;
+    }
+
+    private isValidEntry(entry: unknown): boolean {
+        if (typeof entry !== 'object' || entry === null) return false;
+        const { value, updatedAt } = entry as Partial<StoredEntry<unknown>>;
+        return value !== undefined && typeof updatedAt === 'number' && isFinite(updatedAt);
+    }
+
+    private mergeDataFiles(base: DeviceDataFile, changes: DeviceDataFile): DeviceDataFile {
+        const merged = this.createEmptyDataFile();
+        this.mergeSections(merged, base);
+        this.mergeSections(merged, changes);
+        return merged;
+    }
+
+    private mergeSections(target: DataSections, source: Partial<DataSections>): void {
+        this.mergeEntries(target.processedBookmarks, source.processedBookmarks);
+        this.mergeEntries(target.bookmarkRecords, source.bookmarkRecords);
+        this.mergeEntries(target.pendingRemovals, source.pendingRemovals);
+        this.mergeEntries(target.bookmarkPayloads, source.bookmarkPayloads);
+    }
+
+    /**
+     * Merge entries into target, keeping whichever change of each key is newest
+     */
+    private mergeEntries<T>(target: Record<string, StoredEntry<T>>, source: Record<string, StoredEntry<T>> | undefined): void {
+        if (!source) return;
+        for (const key in source) {
+            const entry = source[key];
+            const existing = target[key];
+            if (!existing || entry.updatedAt >= existing.updatedAt) {
+                target[key] = entry;
+            }
+        }
+    }
+
+    /**
+     * Move data saved by earlier versions in this device's localStorage into the data file
+     */
+    private async migrateLocalStorage(): Promise<void> {
         try {
-            // Use localStorage as our data store
-            const processedBookmarksJson = localStorage.getItem(this.STORAGE_KEY);
-            const bookmarkRecordsJson = localStorage.getItem(this.RECORDS_KEY);
+            const processedBookmarksJson = localStorage.getItem(this.LEGACY_STORAGE_KEY);
+            const bookmarkRecordsJson = localStorage.getItem(this.LEGACY_RECORDS_KEY);
+            const pendingRemovalsJson = localStorage.getItem(this.LEGACY_REMOVALS_KEY);
+            
+            if (!processedBookmarksJson && !bookmarkRecordsJson && !pendingRemovalsJson) return;
+            
+            const now = Date.now();
             
             if (processedBookmarksJson) {
-                this.processedBookmarks = JSON.parse(processedBookmarksJson);
+                const processed: Record<string, number> = JSON.parse(processedBookmarksJson);
+                for (const id in processed) {
+                    this.migrateEntry(this.processedBookmarks, this.localData.processedBookmarks, id, processed[id], now);
+                }
             }
             
             if (bookmarkRecordsJson) {
-                const recordsData = JSON.parse(bookmarkRecordsJson);
-                
-                // Convert date strings back to Date objects
-                this.bookmarkRecords = {};
-                for (const id in recordsData) {
-                    const record = recordsData[id];
-                    this.bookmarkRecords[id] = {
-                        ...record,
-                        importDate: new Date(record.importDate)
-                    };
+                const records: Record<string, SerializedBookmarkRecord> = JSON.parse(bookmarkRecordsJson);
+                for (const id in records) {
+                    this.migrateEntry(this.bookmarkRecords, this.localData.bookmarkRecords, id, records[id], now);
                 }
             }
             
-            this.dataLoaded = true;
+            if (pendingRemovalsJson) {
+                const removals: Record<string, PendingRemoval> = JSON.parse(pendingRemovalsJson);
+                for (const id in removals) {
+                    this.migrateEntry(this.pendingRemovals, this.localData.pendingRemovals, id, removals[id], now);
+                }
+            }
+            
+            await this.writeLocalData();
+            
+            localStorage.removeItem(this.LEGACY_STORAGE_KEY);
+            localStorage.removeItem(this.LEGACY_RECORDS_KEY);
+            localStorage.removeItem(this.LEGACY_REMOVALS_KEY);
+            console.log('[Bookmark Bridge] Migrated bookmark data from localStorage to the vault');
         } catch (error) {
-            console.error('Failed to load bookmark data:', error);
-            this.processedBookmarks = {};
-            this.bookmarkRecords = {};
+            // Leave localStorage untouched so the migration is retried on the next load
+            console.error('Failed to migrate bookmark data from localStorage:', error);
+        }
+    }
+
+    /**
+     * Move the payloads that earlier versions saved in this device's data file into payload files
+     */
+    private async migratePayloads(): Promise<void> {
+        if (!this.hasUnsavedPayloads()) return;
+        try {
+            await this.writeLocalData();
+            console.log('[Bookmark Bridge] Moved cached bookmark data into payload files');
+        } catch (error) {
+            // The payloads stay in memory and are moved by the next save
+            console.error('Failed to move cached bookmark data into payload files:', error);
+        }
+    }
+
+    private hasUnsavedPayloads(): boolean {
+        const payloads = this.localData.bookmarkPayloads;
+        return Object.keys(payloads).some(key => payloads[key] !== this.savedPayloads[key]);
+    }
+
+    /**
+     * Add a migrated value unless the key is already known from the synced data files
+     */
+    private migrateEntry<T>(merged: Record<string, StoredEntry<T>>, local: Record<string, StoredEntry<T>>, key: string, value: T, updatedAt: number): void {
+        if (merged[key]) return;
+        const entry = { value, updatedAt };
+        merged[key] = entry;
+        local[key] = entry;
+    }
+
+    /**
+     * Record a change made on this device and save this device's data file
+     */
+    private async setEntry<T>(section: keyof DataSections, key: string, value: T | null): Promise<void> {
+        const entry = { value, updatedAt: Date.now() };
+        (this[section] as Record<string, StoredEntry<T>>)[key] = entry;
+        (this.localData[section] as Record<string, StoredEntry<T>>)[key] = entry;
+        await this.saveData();
+    }
+
+    /**
+     * Save this device's data file
+     * Writes are queued so overlapping saves can't interleave; inside a transaction they are
+     * deferred until the transaction ends
+     * @throws Error if the data could not be written; the changes stay in memory and are written by the next save
+     */
+    private saveData(): Promise<void> {
+        if (this.transactionDepth > 0) {
+            this.hasUnsavedChanges = true;
+            return Promise.resolve();
         }
+        const write = this.saveQueue.then(() => this.writeLocalData());
+        // A failed write must not stop the writes queued after it
+        this.saveQueue = write.catch(() => undefined);
+        return write;
     }
 
     /**
-     * Save the current processed bookmarks and records to localStorage
-     * Ensures persistence across plugin reloads
+     * Run work that makes many changes and save them with a single write when it finishes.
+     * Changes are kept in memory until then, so a large import writes the data file once per page
+     * instead of once per bookmark. The changes are saved even if the work throws, because they
+     * describe notes that were already written to the vault. Transactions may be nested; only the
+     * outermost one saves.
+     * @param work The changes to make
+     * @returns The result of the work
+     * @throws Error if the work throws or the changes could not be saved
      */
-    private async saveData(): Promise<void> {
+    public async transaction<T>(work: () => Promise<T>): Promise<T> {
+        await this.loadData(); // Ensure data is loaded
+        this.transactionDepth++;
+        try {
+            return await work();
+        } finally {
+            this.transactionDepth--;
+            if (this.transactionDepth === 0 && this.hasUnsavedChanges) {
+                this.hasUnsavedChanges = false;
+                await this.saveData();
+            }
+        }
+    }
+
+    private async writeLocalData(): Promise<void> {
         try {
-            // Save to localStorage
-            localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.processedBookmarks));
-            localStorage.setItem(this.RECORDS_KEY, JSON.stringify(this.bookmarkRecords));
+            const adapter = this.app.vault.adapter;
+            if (!(await adapter.exists(this.dataFolder))) {
+                await adapter.mkdir(this.dataFolder);
+            }
+            // Payloads are saved in their own files, so a new page doesn't rewrite all of them
+            await adapter.write(this.localDataPath, JSON.stringify({ ...this.localData, bookmarkPayloads: {} }));
+            await this.writePayloadFiles();
         } catch (error) {
             console.error('Failed to save bookmark data:', error);
+            throw new Error(`Could not save bookmark data: ${error instanceof Error ? error.message : String(error)}`);
         }
     }
 
+    /**
+     * Save the payload files holding a payload that changed since it was last saved.
+     * New payloads go in the last file until it is full, so a page of new bookmarks
+     * writes one or two files.
+     */
+    private async writePayloadFiles(): Promise<void> {
+        const payloads = this.localData.bookmarkPayloads;
+        const changedFiles: Record<number, PayloadFile> = {};
+        for (const key in payloads) {
+            if (payloads[key] === this.savedPayloads[key]) continue;
+            if (!(key in this.payloadFileIndexes)) {
+                this.payloadFileIndexes[key] = this.getPayloadFileWithRoom();
+            }
+            changedFiles[this.payloadFileIndexes[key]] = { deviceId: this.deviceId, bookmarkPayloads: {} };
+        }
+        
+        const indexes = Object.keys(changedFiles);
+        if (indexes.length === 0) return;
+        
+        for (const key in this.payloadFileIndexes) {
+            const file = changedFiles[this.payloadFileIndexes[key]];
+            if (file && payloads[key]) {
+                file.bookmarkPayloads[key] = payloads[key];
+            }
+        }
+        
+        const adapter = this.app.vault.adapter;
+        for (const folder of [`${this.dataFolder}/payloads`, this.localPayloadFolder]) {
+            if (!(await adapter.exists(folder))) {
+                await adapter.mkdir(folder);
+            }
+        }
+        for (const index of indexes) {
+            const file = changedFiles[Number(index)];
+            await adapter.write(`${this.localPayloadFolder}/${index}.json`, JSON.stringify(file));
+            for (const key in file.bookmarkPayloads) {
+                this.savedPayloads[key] = file.bookmarkPayloads[key];
+            }
+        }
+    }
+
+    /**
+     * Get the index of the payload file a new payload should be saved in, starting a new file
+     * when the last one is full
+     */
+    private getPayloadFileWithRoom(): number {
+        let index = this.payloadFileSizes.length - 1;
+        if (index < 0 || (this.payloadFileSizes[index] || 0) >= PAYLOAD_FILE_SIZE) {
+            index = this.payloadFileSizes.length;
+        }
+        this.payloadFileSizes[index] = (this.payloadFileSizes[index] || 0) + 1;
+        return index;
+    }
+
+    private toBookmarkRecord(record: SerializedBookmarkRecord): BookmarkRecord {
+        return {
+            ...record,
+            importDate: new Date(record.importDate)
+        };
+    }
+
     /**
      * Check if a bookmark has already been processed
      * @param bookmarkId The ID of the bookmark to check
@@ -97,7 +617,7 @@ export class BookmarkStorage {
      */
     public async isBookmarkProcessed(bookmarkId: string): Promise<boolean> {
         await this.loadData(); // Ensure data is loaded
-        return !!this.processedBookmarks[bookmarkId];
+        return this.processedBookmarks[bookmarkId]?.value != null;
     }
 
     /**
@@ -105,8 +625,8 @@ export class BookmarkStorage {
      * @param bookmarkId The ID of the bookmark to mark as processed
      */
     public async markBookmarkAsProcessed(bookmarkId: string): Promise<void> {
-        this.processedBookmarks[bookmarkId] = Date.now();
-        await this.saveData();
+        await this.loadData(); // Ensure data is loaded
+        await this.setEntry('processedBookmarks', bookmarkId, Date.now());
     }
 
     /**
@@ -115,7 +635,7 @@ export class BookmarkStorage {
      */
     public async getProcessedBookmarkIds(): Promise<string[]> {
         await this.loadData(); // Ensure data is loaded
-        return Object.keys(this.processedBookmarks);
+        return Object.keys(this.processedBookmarks).filter(id => this.processedBookmarks[id].value != null);
     }
 
     /**
@@ -123,7 +643,14 @@ export class BookmarkStorage {
      * Useful for forcing a full re-sync
      */
     public async clearProcessedBookmarks(): Promise<void> {
-        this.processedBookmarks = {};
+        await this.loadData(); // Ensure data is loaded
+        const now = Date.now();
+        for (const id of await this.getProcessedBookmarkIds()) {
+            // Tombstones, so other devices' copies of these entries don't bring them back
+            const entry = { value: null, updatedAt: now };
+            this.processedBookmarks[id] = entry;
+            this.localData.processedBookmarks[id] = entry;
+        }
         await this.saveData();
     }
     
@@ -134,26 +661,395 @@ export class BookmarkStorage {
      */
     public async getBookmarkById(tweetId: string): Promise<BookmarkRecord | null> {
         await this.loadData(); // Ensure data is loaded
-        return this.bookmarkRecords[tweetId] || null;
+        const record = this.bookmarkRecords[tweetId]?.value;
+        return record ? this.toBookmarkRecord(record) : null;
     }
     
     /**
      * Save a bookmark record
      * @param record The bookmark record to save
+     * @param payload The bookmark's normalized API data, cached so the note can be re-rendered offline
      */
-    public async saveBookmark(record: BookmarkRecord): Promise<void> {
-        this.bookmarkRecords[record.tweetId] = record;
-        // Also mark as processed for backward compatibility
-        this.processedBookmarks[record.tweetId] = record.importDate.getTime();
+    public async saveBookmark(record: BookmarkRecord, payload?: TwitterBookmark): Promise<void> {
+        await this.saveBookmarks([record], payload ? [payload] : []);
+    }
+    
+    /**
+     * Save several bookmark records at once, writing the data file only once
+     * @param records The bookmark records to save
+     * @param payloads The bookmarks' normalized API data, if available
+     */
+    public async saveBookmarks(records: BookmarkRecord[], payloads: TwitterBookmark[] = []): Promise<void> {
+        await this.loadData(); // Ensure data is loaded
+        const updatedAt = Date.now();
+        for (const record of records) {
+            const recordEntry = { value: { ...record, importDate: record.importDate.toISOString() }, updatedAt };
+            this.bookmarkRecords[record.tweetId] = recordEntry;
+            this.localData.bookmarkRecords[record.tweetId] = recordEntry;
+            // Also mark as processed for backward compatibility
+            const processedEntry = { value: record.importDate.getTime(), updatedAt };
+            this.processedBookmarks[record.tweetId] = processedEntry;
+            this.localData.processedBookmarks[record.tweetId] = processedEntry;
+        }
+        this.setPayloads(payloads, updatedAt);
         await this.saveData();
     }
     
+    /**
+     * Update the cached API data of bookmarks, e.g. after their notes were refreshed
+     * @param payloads The bookmarks' normalized API data
+     */
+    public async saveBookmarkPayloads(payloads: TwitterBookmark[]): Promise<void> {
+        if (payloads.length === 0) return;
+        await this.loadData(); // Ensure data is loaded
+        this.setPayloads(payloads, Date.now());
+        await this.saveData();
+    }
+    
+    /**
+     * Get the cached API data of a bookmark
+     * @param tweetId The ID of the tweet
+     * @returns The bookmark as it was last fetched, or null if it was imported before payloads were cached
+     */
+    public async getBookmarkPayload(tweetId: string): Promise<TwitterBookmark | null> {
+        await this.loadData(); // Ensure data is loaded
+        const payload = this.bookmarkPayloads[tweetId]?.value;
+        return payload ? this.toTwitterBookmark(payload) : null;
+    }
+    
+    private setPayloads(payloads: TwitterBookmark[], updatedAt: number): void {
+        for (const payload of payloads) {
+            // A JSON round trip turns the dates into strings
+            const entry = { value: JSON.parse(JSON.stringify(payload)) as SerializedBookmark, updatedAt };
+            this.bookmarkPayloads[payload.id] = entry;
+            this.localData.bookmarkPayloads[payload.id] = entry;
+        }
+    }
+    
+    /**
+     * Turn cached API data back into a bookmark, restoring its dates
+     */
+    private toTwitterBookmark(payload: SerializedBookmark): TwitterBookmark {
+        const bookmark = JSON.parse(JSON.stringify(payload)) as TwitterBookmark;
+        bookmark.createdAt = new Date(bookmark.createdAt);
+        for (const threadTweet of bookmark.thread || []) {
+            threadTweet.createdAt = new Date(threadTweet.createdAt);
+        }
+        for (const referencedTweet of [bookmark.quotedTweet, bookmark.inReplyTo]) {
+            if (referencedTweet) {
+                referencedTweet.createdAt = new Date(referencedTweet.createdAt);
+            }
+        }
+        return bookmark;
+    }
+    
+    /**
+     * Point records at a note's new location after it, or a folder containing it, was renamed or moved
+     * @param oldPath The previous path of the file or folder
+     * @param newPath The new path of the file or folder
+     * @returns The number of records updated
+     */
+    public async updateFilePaths(oldPath: string, newPath: string): Promise<number> {
+        await this.loadData(); // Ensure data is loaded
+        const updatedAt = Date.now();
+        let count = 0;
+        for (const record of this.getRecordsAtPath(oldPath)) {
+            const entry = { value: { ...record, filePath: newPath + record.filePath.substring(oldPath.length) }, updatedAt };
+            this.bookmarkRecords[record.tweetId] = entry;
+            this.localData.bookmarkRecords[record.tweetId] = entry;
+            count++;
+        }
+        if (count > 0) {
+            await this.saveData();
+        }
+        return count;
+    }
+    
+    /**
+     * Remember that the notes at a path, or in a folder, were deleted
+     * @param filePath The path of the deleted file or folder
+     * @param reimport Whether the bookmarks should be imported again on the next sync; otherwise they stay
+     * marked as processed so they are never imported again
+     * @returns The number of records marked as deleted
+     */
+    public async markNotesDeleted(filePath: string, reimport: boolean): Promise<number> {
+        await this.loadData(); // Ensure data is loaded
+        const updatedAt = Date.now();
+        let count = 0;
+        for (const record of this.getRecordsAtPath(filePath)) {
+            const entry = { value: { ...record, deletedAt: updatedAt }, updatedAt };
+            this.bookmarkRecords[record.tweetId] = entry;
+            this.localData.bookmarkRecords[record.tweetId] = entry;
+            if (reimport) {
+                const processedEntry = { value: null, updatedAt };
+                this.processedBookmarks[record.tweetId] = processedEntry;
+                this.localData.processedBookmarks[record.tweetId] = processedEntry;
+            }
+            count++;
+        }
+        if (count > 0) {
+            await this.saveData();
+        }
+        return count;
+    }
+    
+    /**
+     * Get the bookmarks whose notes were deleted and should be imported again
+     * @returns An array of bookmark records
+     */
+    public async getBookmarksToReimport(): Promise<BookmarkRecord[]> {
+        await this.loadData(); // Ensure data is loaded
+        const records: BookmarkRecord[] = [];
+        for (const id in this.bookmarkRecords) {
+            const record = this.bookmarkRecords[id].value;
+            if (record?.deletedAt && !record.unavailableAt && this.processedBookmarks[id]?.value == null) {
+                records.push(this.toBookmarkRecord(record));
+            }
+        }
+        return records;
+    }
+    
+    /**
+     * Stop re-importing deleted notes whose tweets X no longer returns, because the tweet was
+     * deleted or made private
+     * @param tweetIds IDs of the tweets X did not return
+     * @returns The number of records marked as unavailable
+     */
+    public async markTweetsUnavailable(tweetIds: string[]): Promise<number> {
+        await this.loadData(); // Ensure data is loaded
+        const updatedAt = Date.now();
+        let count = 0;
+        for (const tweetId of tweetIds) {
+            const record = this.bookmarkRecords[tweetId]?.value;
+            if (!record?.deletedAt || record.unavailableAt) continue;
+            const entry = { value: { ...record, unavailableAt: updatedAt }, updatedAt };
+            this.bookmarkRecords[tweetId] = entry;
+            this.localData.bookmarkRecords[tweetId] = entry;
+            count++;
+        }
+        if (count > 0) {
+            await this.saveData();
+        }
+        return count;
+    }
+    
+    /**
+     * Get the live records for a file path, or for every file inside a folder path
+     */
+    private getRecordsAtPath(path: string): SerializedBookmarkRecord[] {
+        const records: SerializedBookmarkRecord[] = [];
+        for (const id in this.bookmarkRecords) {
+            const record = this.bookmarkRecords[id].value;
+            if (record && !record.deletedAt && (record.filePath === path || record.filePath.startsWith(`${path}/`))) {
+                records.push(record);
+            }
+        }
+        return records;
+    }
+    
     /**
      * Get all bookmark records
      * @returns An array of all bookmark records
      */
     public async getAllBookmarks(): Promise<BookmarkRecord[]> {
         await this.loadData(); // Ensure data is loaded
-        return Object.values(this.bookmarkRecords);
+        const records: BookmarkRecord[] = [];
+        for (const id in this.bookmarkRecords) {
+            const record = this.bookmarkRecords[id].value;
+            if (record) {
+                records.push(this.toBookmarkRecord(record));
+            }
+        }
+        return records;
+    }
+    
+    /**
+     * Record a failed attempt to remove an imported bookmark from X, so it is retried on a later sync
+     * @param tweetId The ID of the tweet
+     * @param error The error message from the failed attempt
+     */
+    public async recordRemovalFailure(tweetId: string, error: string): Promise<void> {
+        await this.loadData(); // Ensure data is loaded
+        const existing = this.pendingRemovals[tweetId]?.value;
+        await this.setEntry('pendingRemovals', tweetId, {
+            tweetId,
+            attempts: (existing?.attempts || 0) + 1,
+            lastError: error,
+            lastAttempt: Date.now()
+        });
+    }
+    
+    /**
+     * Clear the pending removal for a bookmark once it has been removed from X
+     * @param tweetId The ID of the tweet
+     */
+    public async clearRemovalFailure(tweetId: string): Promise<void> {
+        await this.loadData(); // Ensure data is loaded
+        if (!this.pendingRemovals[tweetId]?.value) return;
+        await this.setEntry('pendingRemovals', tweetId, null);
+    }
+    
+    /**
+     * Get all bookmarks that still need to be removed from X
+     * @returns An array of pending removals
+     */
+    public async getPendingRemovals(): Promise<PendingRemoval[]> {
+        await this.loadData(); // Ensure data is loaded
+        const removals: PendingRemoval[] = [];
+        for (const id in this.pendingRemovals) {
+            const removal = this.pendingRemovals[id].value;
+            if (removal) {
+                removals.push(removal);
+            }
+        }
+        return removals;
+    }
+    
+    /**
+     * Get the current value of every entry, e.g. to back it up
+     * @returns A snapshot of the merged data of all devices
+     */
+    public async exportSnapshot(): Promise<BookmarkDataSnapshot> {
+        await this.loadData(); // Ensure data is loaded
+        const snapshot: BookmarkDataSnapshot = {
+            processedBookmarks: {},
+            bookmarkRecords: {},
+            pendingRemovals: {},
+            bookmarkPayloads: {}
+        };
+        for (const section of DATA_SECTIONS) {
+            const entries = this[section] as Record<string, StoredEntry<unknown>>;
+            const values = snapshot[section] as Record<string, unknown>;
+            for (const key in entries) {
+                if (entries[key].value != null) {
+                    values[key] = entries[key].value;
+                }
+            }
+        }
+        return snapshot;
+    }
+    
+    /**
+     * Restore a snapshot as new changes, so they win over older entries on every device
+     * @param snapshot The snapshot to restore
+     * @param mode 'merge' adds the entries that don't exist yet and keeps the rest; 'replace' overwrites
+     * every entry with the snapshot's and removes entries that are not in it
+     */
+    public async restoreSnapshot(snapshot: BookmarkDataSnapshot, mode: 'merge' | 'replace'): Promise<SnapshotRestoreResult> {
+        await this.loadData(); // Ensure data is loaded
+        const result: SnapshotRestoreResult = { added: 0, replaced: 0, kept: 0, removed: 0 };
+        const updatedAt = Date.now();
+        
+        for (const section of DATA_SECTIONS) {
+            const entries = this[section] as Record<string, StoredEntry<unknown>>;
+            const localEntries = this.localData[section] as Record<string, StoredEntry<unknown>>;
+            const values = snapshot[section] as Record<string, unknown>;
+            
+            if (mode === 'replace') {
+                for (const key in entries) {
+                    if (entries[key].value != null && !(key in values)) {
+                        // Tombstones, so other devices' copies of these entries don't bring them back
+                        const entry = { value: null, updatedAt };
+                        entries[key] = entry;
+                        localEntries[key] = entry;
+                        result.removed++;
+                    }
+                }
+            }
+            
+            for (const key in values) {
+                const exists = entries[key]?.value != null;
+                if (exists && mode === 'merge') {
+                    result.kept++;
+                    continue;
+                }
+                const entry = { value: values[key], updatedAt };
+                entries[key] = entry;
+                localEntries[key] = entry;
+                if (exists) {
+                    result.replaced++;
+                } else {
+                    result.added++;
+                }
+            }
+        }
+        
+        await this.saveData();
+        return result;
+    }
+    
+    /**
+     * Persist a fetched page before it is processed, so it can be replayed if processing fails
+     * or Obsidian closes before the page's cursor is saved
+     * @param page The fetched page
+     * @returns The journal page, whose ID is passed to completeJournalPage once it is processed
+     */
+    public async addJournalPage(page: BookmarkPage): Promise<JournalPage> {
+        const journal = await this.loadJournal();
+        const journalPage: JournalPage = {
+            ...page,
+            id: `${Date.now().toString(36)}-${journal.length}`,
+            fetchedAt: Date.now()
+        };
+        journal.push({
+            id: journalPage.id,
+            fetchedAt: journalPage.fetchedAt,
+            bookmarks: JSON.parse(JSON.stringify(page.bookmarks)),
+            cursor: page.cursor
+        });
+        await this.writeJournal(journal);
+        return journalPage;
+    }
+    
+    /**
+     * Remove a page from the journal once it has been processed and its cursor saved
+     * @param pageId The ID of the journal page
+     */
+    public async completeJournalPage(pageId: string): Promise<void> {
+        const journal = await this.loadJournal();
+        this.journal = journal.filter(page => page.id !== pageId);
+        await this.writeJournal(this.journal);
+    }
+    
+    /**
+     * Get the fetched pages that have not been fully processed, oldest first
+     * @returns An array of journal pages
+     */
+    public async getPendingJournalPages(): Promise<JournalPage[]> {
+        const journal = await this.loadJournal();
+        return journal.map(page => ({
+            id: page.id,
+            fetchedAt: page.fetchedAt,
+            bookmarks: page.bookmarks.map(bookmark => this.toTwitterBookmark(bookmark)),
+            cursor: page.cursor
+        }));
+    }
+    
+    private async loadJournal(): Promise<SerializedJournalPage[]> {
+        if (this.journal) return this.journal;
+        
+        try {
+            const adapter = this.app.vault.adapter;
+            this.journal = await adapter.exists(this.journalPath)
+                ? JSON.parse(await adapter.read(this.journalPath))
+                : [];
+        } catch (error) {
+            console.error('Failed to load sync journal:', error);
+            this.journal = [];
+        }
+        return this.journal as SerializedJournalPage[];
+    }
+    
+    /**
+     * Write the journal; failures are thrown so a sync never processes a page that could
+     * not be journaled
+     */
+    private async writeJournal(journal: SerializedJournalPage[]): Promise<void> {
+        const adapter = this.app.vault.adapter;
+        const journalFolder = this.journalPath.substring(0, this.journalPath.lastIndexOf('/'));
+        if (!(await adapter.exists(journalFolder))) {
+            await adapter.mkdir(journalFolder);
+        }
+        await adapter.write(this.journalPath, JSON.stringify(journal));
     }
 } 
\ No newline at end of file
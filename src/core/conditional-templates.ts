@@ -0,0 +1,32 @@
+import { TwitterBookmark } from '../services/twitter-service';
+import { BookmarkCondition, checkCondition, findFirstMatch } from './bookmark-conditions';
+
+/**
+ * A named template used for the bookmarks that meet its condition
+ */
+export interface ConditionalTemplate extends BookmarkCondition {
+    name: string;
+    template: string;
+}
+
+/**
+ * Find the first template whose condition a bookmark meets
+ * @returns The template, or null if none matches and the main template should be used
+ */
+export function findConditionalTemplate(templates: ConditionalTemplate[], bookmark: TwitterBookmark): ConditionalTemplate | null {
+    const index = findFirstMatch(templates, bookmark);
+    return index === -1 ? null : templates[index];
+}
+
+/**
+ * Check a saved conditional template
+ * @returns A description of what is wrong with it, or null if it is valid
+ */
+export function checkConditionalTemplate(value: unknown): string | null {
+    const problem = checkCondition(value);
+    if (problem) return problem;
+    const conditionalTemplate = value as Record<string, unknown>;
+    if (typeof conditionalTemplate.name !== 'string') return 'has no name';
+    if (typeof conditionalTemplate.template !== 'string') return 'has no template';
+    return null;
+}
\ No newline at end of file
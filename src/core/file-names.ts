@@ -0,0 +1,61 @@
+/**
+ * Helpers for turning rendered file name templates into names that are valid on every platform
+ * Obsidian runs on, without dropping letters from non-Latin scripts.
+ */
+
+// Not allowed in file names on Windows, macOS or Android, or break Obsidian links
+const FORBIDDEN_CHARACTERS = /[\\/:*?"<>|#^[\]]/g;
+// Control characters, including line breaks and tabs
+const CONTROL_CHARACTERS = /[\u0000-\u001f\u007f-\u009f]/g;
+// Device names Windows reserves, with or without an extension
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[0-9]|lpt[0-9])(\..*)?$/i;
+// File systems limit names to 255 bytes; leave room for the extension and a collision suffix
+const MAX_FILE_NAME_BYTES = 200;
+
+const encoder = new TextEncoder();
+
+/**
+ * Get the length of text in UTF-8 bytes
+ */
+function getByteLength(text: string): number {
+    return encoder.encode(text).length;
+}
+
+/**
+ * Shorten text to at most maxLength characters and MAX_FILE_NAME_BYTES bytes,
+ * never cutting a character in half
+ */
+function truncateFileName(name: string, maxLength: number): string {
+    const characters = Array.from(name);
+    let result = '';
+    let bytes = 0;
+    for (let i = 0; i < characters.length && i < maxLength; i++) {
+        bytes += getByteLength(characters[i]);
+        if (bytes > MAX_FILE_NAME_BYTES) break;
+        result += characters[i];
+    }
+    return result;
+}
+
+/**
+ * Make a rendered file name safe to use, without its extension
+ * @param name The rendered file name
+ * @param maxLength Maximum length in characters
+ * @returns The sanitized name, or an empty string if nothing usable is left
+ */
+export function sanitizeFileName(name: string, maxLength: number): string {
+    let sanitized = name
+        .normalize('NFC')
+        .replace(CONTROL_CHARACTERS, ' ')
+        .replace(FORBIDDEN_CHARACTERS, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+    // Windows drops trailing dots and spaces, and a leading dot hides the file
+    sanitized = truncateFileName(sanitized, maxLength).replace(/^[.\s]+|[.\s]+$/g, '');
+
+    if (RESERVED_NAMES.test(sanitized)) {
+        sanitized = `${sanitized}_`;
+    }
+    return sanitized;
+}
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { TwitterBookmark } from '../services/twitter-service';
+import { BookmarkCondition, checkCondition, findFirstMatch } from './bookmark-conditions';
+import { sanitizeFileName } from './file-names';
+
+const MAX_FOLDER_NAME_LENGTH = 100;
+
+/**
+ * Sends the notes of bookmarks that meet a condition to a folder
+ */
+export interface FolderRoutingRule extends BookmarkCondition {
+    folder: string; // Relative to the target folder; may use template variables, e.g. {{year}}/{{month}}
+}
+
+/**
+ * Find the first rule a bookmark meets
+ * @returns The index of the rule, or -1 if no rule matches
+ */
+export function findRoutingRule(rules: FolderRoutingRule[], bookmark: TwitterBookmark): number {
+    return findFirstMatch(rules, bookmark);
+}
+
+/**
+ * Make a rendered rule folder safe to use, cleaning each part of the path separately
+ * @returns The folder path, or an empty string if nothing usable is left
+ */
+export function sanitizeFolderPath(folder: string): string {
+    return folder
+        .split('/')
+        .map(part => sanitizeFileName(part, MAX_FOLDER_NAME_LENGTH))
+        .filter(part => part.length > 0)
+        .join('/');
+}
+
+/**
+ * Check a saved routing rule
+ * @returns A description of what is wrong with it, or null if it is valid
+ */
+export function checkRoutingRule(value: unknown): string | null {
+    const problem = checkCondition(value);
+    if (problem) return problem;
+    if (typeof (value as Record<string, unknown>).folder !== 'string') return 'has no folder';
+    return null;
+}
\ No newline at end of file
@@ -0,0 +1,204 @@
+import { moment } from 'obsidian';
+import { TwitterBookmark } from '../services/twitter-service';
+
+/**
+ * A frontmatter property value; dates are written in the format Obsidian uses for date & time properties
+ */
+export type FrontmatterValue = string | number | boolean | Date | string[];
+
+/**
+ * Properties the plugin can generate from a bookmark
+ */
+export type FrontmatterPropertyName =
+    | 'tweet_id'
+    | 'author'
+    | 'author_username'
+    | 'author_name'
+    | 'date'
+    | 'url'
+    | 'tags'
+    | 'folder'
+    | 'lang'
+    | 'likes';
+
+interface FrontmatterPropertyDefinition {
+    description: string;
+    getValue: (bookmark: TwitterBookmark) => FrontmatterValue | null; // Null leaves the property out
+}
+
+export const FRONTMATTER_PROPERTIES: Record<FrontmatterPropertyName, FrontmatterPropertyDefinition> = {
+    tweet_id: {
+        description: 'The tweet ID as text. Always included, since it is how the plugin recognizes its notes.',
+        getValue: bookmark => bookmark.id
+    },
+    author: {
+        description: 'The author as "@username (Name)".',
+        getValue: bookmark => `@${bookmark.authorUsername} (${bookmark.authorName})`
+    },
+    author_username: {
+        description: 'The author\'s username, without the @.',
+        getValue: bookmark => bookmark.authorUsername
+    },
+    author_name: {
+        description: 'The author\'s display name.',
+        getValue: bookmark => bookmark.authorName
+    },
+    date: {
+        description: 'When the tweet was posted, as a date & time property.',
+        getValue: bookmark => bookmark.createdAt
+    },
+    url: {
+        description: 'The link to the tweet.',
+        getValue: bookmark => bookmark.tweetUrl
+    },
+    tags: {
+        description: 'The tweet\'s hashtags, as a list of tags.',
+        getValue: bookmark => bookmark.hashtags
+    },
+    folder: {
+        description: 'The X bookmark folder the tweet is filed in, if any.',
+        getValue: bookmark => bookmark.folder
+    },
+    lang: {
+        description: 'The language of the tweet.',
+        getValue: bookmark => bookmark.lang || null
+    },
+    likes: {
+        description: 'The number of likes when the tweet was imported or last refreshed.',
+        getValue: bookmark => bookmark.metrics ? bookmark.metrics.likeCount : null
+    }
+};
+
+// Strings that YAML 1.1 or 1.2 would read as something other than a string
+const NON_STRING_SCALARS = [
+    /^(true|false|yes|no|on|off|y|n|null|~)$/i,
+    /^[-+]?[\d_]*\.?[\d_]*\d[\d_]*([eE][-+]?\d+)?$/, // Integers and floats, e.g. 42, 1_000, .5, 1e3
+    /^[-+]?\d[\d_]*\.$/, // Floats without a fraction, e.g. 1.
+    /^[-+]?0x[0-9a-f_]+$/i, // Hexadecimal
+    /^[-+]?0o[0-7_]+$/i, // YAML 1.2 octal
+    /^[-+]?0b[01_]+$/i, // Binary
+    /^[-+]?\d[\d_]*(:[0-5]?\d)+(\.[\d_]*)?$/, // Sexagesimal numbers and times, e.g. 12:30
+    /^\d{4}-\d\d?-\d\d?(([Tt]|\s+).*)?$/, // Dates and timestamps, e.g. 2024-01-01
+    /^[-+]?\.(inf|nan)$/i
+];
+// Strings that are safe to write without quotes
+const PLAIN_STRING = /^[\p{L}\p{N}_][\p{L}\p{N}_ .,/()'-]*$/u;
+// Property names that are safe to write without quotes
+const PROPERTY_NAME = /^[\p{L}\p{N}_][\p{L}\p{N}_ .-]*$/u;
+
+/**
+ * Check if a property name is one the plugin can generate
+ */
+export function isFrontmatterPropertyName(name: unknown): name is FrontmatterPropertyName {
+    return typeof name === 'string' && name in FRONTMATTER_PROPERTIES;
+}
+
+function isNonStringScalar(value: string): boolean {
+    return NON_STRING_SCALARS.some(pattern => pattern.test(value));
+}
+
+/**
+ * Write a string as a YAML scalar, quoting and escaping it unless it can be written as it is
+ */
+function formatString(value: string): string {
+    if (PLAIN_STRING.test(value) && value.trim() === value && !isNonStringScalar(value)) {
+        return value;
+    }
+    // A JSON string is also a valid double-quoted YAML string
+    return JSON.stringify(value);
+}
+
+function formatScalar(value: string | number | boolean | Date): string {
+    if (value instanceof Date) {
+        return moment(value).format('YYYY-MM-DDTHH:mm:ss');
+    }
+    if (typeof value === 'number') {
+        return isFinite(value) ? String(value) : JSON.stringify(String(value));
+    }
+    if (typeof value === 'boolean') {
+        return value ? 'true' : 'false';
+    }
+    return formatString(value);
+}
+
+/**
+ * Write properties as YAML frontmatter, without the --- delimiters
+ * Lists are written one item per line, which is how Obsidian writes list properties.
+ */
+export function serializeFrontmatter(properties: Record<string, FrontmatterValue>): string {
+    const lines: string[] = [];
+    for (const name in properties) {
+        const value = properties[name];
+        const key = PROPERTY_NAME.test(name) && !isNonStringScalar(name) ? name : JSON.stringify(name);
+        if (Array.isArray(value)) {
+            if (value.length === 0) {
+                lines.push(`${key}: []`);
+            } else {
+                lines.push(`${key}:`);
+                value.forEach(item => lines.push(`  - ${formatString(item)}`));
+            }
+        } else {
+            lines.push(`${key}: ${formatScalar(value)}`);
+        }
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Get the selected properties of a bookmark, with tweet_id always first
+ * @param names The properties to include; unknown names are ignored
+ */
+export function getBookmarkProperties(bookmark: TwitterBookmark, names: string[]): Record<string, FrontmatterValue> {
+    const properties: Record<string, FrontmatterValue> = {};
+    for (const name of ['tweet_id', ...names]) {
+        if (!isFrontmatterPropertyName(name) || name in properties) continue;
+        const value = FRONTMATTER_PROPERTIES[name].getValue(bookmark);
+        if (value !== null) {
+            properties[name] = value;
+        }
+    }
+    return properties;
+}
+
+/**
+ * Parse static properties written one per line as "name: value"
+ * Values of true or false become checkboxes, numbers become numbers and [a, b] becomes a list;
+ * anything else, or a value in quotes, is text. Empty lines and lines starting with # are skipped.
+ * @returns The properties, and a description of each line that could not be read
+ */
+export function parseStaticProperties(text: string): { properties: Record<string, FrontmatterValue>; errors: string[] } {
+    const properties: Record<string, FrontmatterValue> = {};
+    const errors: string[] = [];
+
+    text.split(/\r?\n/).forEach((line, index) => {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith('#')) return;
+
+        const colonIndex = trimmed.indexOf(':');
+        const name = colonIndex > 0 ? trimmed.substring(0, colonIndex).trim() : '';
+        if (!PROPERTY_NAME.test(name)) {
+            errors.push(`Line ${index + 1}: expected "name: value"`);
+            return;
+        }
+
+        const value = trimmed.substring(colonIndex + 1).trim();
+        const quoted = value.match(/^"(.*)"$|^'(.*)'$/);
+        const list = value.match(/^\[(.*)\]$/);
+        if (quoted) {
+            properties[name] = quoted[1] !== undefined ? quoted[1] : quoted[2];
+        } else if (list) {
+            properties[name] = list[1]
+                .split(',')
+                .map(item => item.trim().replace(/^(["'])(.*)\1$/, '$2'))
+                .filter(item => item.length > 0);
+        } else if (/^(true|false)$/i.test(value)) {
+            properties[name] = value.toLowerCase() === 'true';
+        } else if (/^-?\d+(\.\d+)?$/.test(value)) {
+            properties[name] = Number(value);
+        } else {
+            properties[name] = value;
+        }
+    });
+
+    return { properties, errors };
+}
\ No newline at end of file
@@ -0,0 +1,162 @@
+import { App, normalizePath, TFile, TFolder } from 'obsidian';
+import { BookmarkRecord, BookmarkStorage } from './bookmark-storage';
+
+interface IndexRebuilderSettings {
+    targetFolder: string;
+    singleFileName: string;
+}
+
+/**
+ * A tweet ID found in more than one place in the vault
+ */
+export interface DuplicateBookmark {
+    tweetId: string;
+    filePaths: string[];
+}
+
+/**
+ * A bookmark in the import index whose note could not be found in the vault
+ */
+export interface OrphanedBookmark {
+    tweetId: string;
+    filePath: string | null; // Path the index had recorded, if any
+}
+
+/**
+ * Result of rebuilding the import index from the vault
+ */
+export interface IndexRebuildReport {
+    filesScanned: number;
+    bookmarksFound: number;
+    duplicates: DuplicateBookmark[];
+    orphans: OrphanedBookmark[];
+}
+
+/**
+ * Rebuilds the import index in BookmarkStorage from the notes already in the vault,
+ * so lost or reset plugin data doesn't lead to re-importing everything as duplicates
+ */
+export class IndexRebuilder {
+    private app: App;
+    private settings: IndexRebuilderSettings;
+    private bookmarkStorage: BookmarkStorage;
+
+    constructor(app: App, settings: IndexRebuilderSettings, bookmarkStorage: BookmarkStorage) {
+        this.app = app;
+        this.settings = settings;
+        this.bookmarkStorage = bookmarkStorage;
+    }
+
+    /**
+     * Scan the target folder for bookmark notes and single-file sections and record them in the index.
+     * Bookmarks in the index that aren't found are reported as orphans but stay marked as processed,
+     * so notes the user deleted on purpose are not imported again.
+     */
+    public async rebuild(): Promise<IndexRebuildReport> {
+        const folderPath = normalizePath(this.settings.targetFolder);
+        const folder = this.app.vault.getAbstractFileByPath(folderPath);
+        if (!(folder instanceof TFolder)) {
+            throw new Error(`Target folder "${folderPath}" was not found in the vault.`);
+        }
+
+        const singleFileName = this.getSingleFileName();
+        const files = this.app.vault.getMarkdownFiles().filter(file => file.path.startsWith(`${folderPath}/`));
+        console.log(`[Bookmark Bridge] Rebuilding index from ${files.length} notes in ${folderPath}`);
+
+        // Every place each tweet ID was found
+        const locations = new Map<string, TFile[]>();
+        const addLocation = (tweetId: string, file: TFile) => {
+            const fileList = locations.get(tweetId) || [];
+            fileList.push(file);
+            locations.set(tweetId, fileList);
+        };
+
+        for (const file of files) {
+            const tweetId = this.app.metadataCache.getFileCache(file)?.frontmatter?.tweet_id;
+            if (tweetId) {
+                addLocation(String(tweetId), file);
+            } else if (file.name === singleFileName) {
+                const content = await this.app.vault.cachedRead(file);
+                for (const [sectionTweetId, count] of this.findSingleFileTweetIds(content)) {
+                    for (let i = 0; i < count; i++) {
+                        addLocation(sectionTweetId, file);
+                    }
+                }
+            }
+        }
+
+        const duplicates: DuplicateBookmark[] = [];
+        const records: BookmarkRecord[] = [];
+
+        for (const [tweetId, tweetFiles] of locations) {
+            const filePaths = tweetFiles.map(file => file.path).sort();
+            const existing = await this.bookmarkStorage.getBookmarkById(tweetId);
+
+            if (filePaths.length > 1) {
+                duplicates.push({ tweetId, filePaths });
+            }
+
+            // Keep the recorded path if it is still one of the locations
+            const filePath = existing && filePaths.includes(existing.filePath) ? existing.filePath : filePaths[0];
+            const file = tweetFiles.find(tweetFile => tweetFile.path === filePath) as TFile;
+            records.push({
+                tweetId,
+                filePath,
+                importDate: existing?.importDate || new Date(file.stat.ctime),
+                folder: existing?.folder
+            });
+        }
+
+        const orphans: OrphanedBookmark[] = [];
+        for (const tweetId of await this.bookmarkStorage.getProcessedBookmarkIds()) {
+            if (!locations.has(tweetId)) {
+                const existing = await this.bookmarkStorage.getBookmarkById(tweetId);
+                orphans.push({ tweetId, filePath: existing?.filePath || null });
+            }
+        }
+
+        await this.bookmarkStorage.saveBookmarks(records);
+        console.log(`[Bookmark Bridge] Index rebuilt: ${records.length} bookmarks, ${duplicates.length} duplicates, ${orphans.length} orphans`);
+
+        return {
+            filesScanned: files.length,
+            bookmarksFound: records.length,
+            duplicates,
+            orphans
+        };
+    }
+
+    private getSingleFileName(): string {
+        const fileName = this.settings.singleFileName || 'twitter-bookmarks.md';
+        return fileName.endsWith('.md') ? fileName : `${fileName}.md`;
+    }
+
+    /**
+     * Find the bookmarks in a single file and how many times each appears.
+     * Sections are identified by their region markers, a tweet_id line from a custom template
+     * or their "View on Twitter" link; quoted tweets' links are inside blockquotes and are ignored.
+     */
+    private findSingleFileTweetIds(content: string): Map<string, number> {
+        const countMatches = (pattern: RegExp) => {
+            const counts = new Map<string, number>();
+            let match: RegExpExecArray | null;
+            while ((match = pattern.exec(content)) !== null) {
+                counts.set(match[1], (counts.get(match[1]) || 0) + 1);
+            }
+            return counts;
+        };
+
+        const regionCounts = countMatches(/^<!-- bookmark-bridge:start (\d+) -->$/gm);
+        const idLineCounts = countMatches(/^tweet_id:\s*"?(\d+)"?\s*$/gm);
+        const linkCounts = countMatches(/^\[View on Twitter\]\(https?:\/\/[^)\s]*\/status\/(\d+)\)/gm);
+
+        // A section may have several markers, so count each tweet by whichever appears most often
+        const counts = new Map(linkCounts);
+        for (const markerCounts of [idLineCounts, regionCounts]) {
+            for (const [tweetId, count] of markerCounts) {
+                counts.set(tweetId, Math.max(count, counts.get(tweetId) || 0));
+            }
+        }
+        return counts;
+    }
+}
\ No newline at end of file
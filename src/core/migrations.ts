@@ -0,0 +1,47 @@
+/**
+ * One step of a data migration, upgrading data saved by an older version of the plugin
+ */
+export interface Migration {
+    version: number; // Version of the data after this migration
+    description: string;
+    migrate(data: Record<string, unknown>): void; // Upgrades the data in place
+}
+
+/**
+ * Result of bringing saved data up to the current version
+ */
+export interface MigrationResult {
+    fromVersion: number;
+    toVersion: number;
+    applied: string[]; // Descriptions of the migrations that ran, in order
+}
+
+/**
+ * Get the version data is at once every migration has run
+ */
+export function getLatestVersion(migrations: Migration[]): number {
+    return migrations.reduce((latest, migration) => Math.max(latest, migration.version), 0);
+}
+
+/**
+ * Run the migrations newer than the data's version, oldest first
+ * Data saved by a newer version of the plugin is left as it is.
+ * @param data Saved data, upgraded in place
+ * @param fromVersion Version the data was saved with, 0 for data saved before versioning
+ * @param migrations Every migration, in any order
+ */
+export function runMigrations(data: Record<string, unknown>, fromVersion: number, migrations: Migration[]): MigrationResult {
+    const pending = migrations
+        .filter(migration => migration.version > fromVersion)
+        .sort((a, b) => a.version - b.version);
+
+    for (const migration of pending) {
+        migration.migrate(data);
+    }
+
+    return {
+        fromVersion,
+        toVersion: Math.max(fromVersion, getLatestVersion(migrations)),
+        applied: pending.map(migration => migration.description)
+    };
+}
\ No newline at end of file
@@ -0,0 +1,162 @@
+/**
+ * Helpers for the plugin-owned regions of bookmark notes.
+ * Generated content is wrapped in HTML comment markers so it can be re-rendered later
+ * without touching anything the user wrote outside them. In frontmatter, the plugin owns
+ * the properties it generates and leaves every other property alone.
+ */
+
+const START_MARKER = 'bookmark-bridge:start';
+const END_MARKER = 'bookmark-bridge:end';
+
+/**
+ * A top-level frontmatter property together with its continuation lines
+ */
+interface FrontmatterBlock {
+    key: string | null;
+    lines: string[];
+}
+
+/**
+ * A note split into its frontmatter (without the --- delimiters) and the rest of the content
+ */
+interface SplitNote {
+    frontmatter: string | null;
+    body: string;
+}
+
+function startMarker(tweetId?: string): string {
+    return tweetId ? `<!-- ${START_MARKER} ${tweetId} -->` : `<!-- ${START_MARKER} -->`;
+}
+
+function endMarker(tweetId?: string): string {
+    return tweetId ? `<!-- ${END_MARKER} ${tweetId} -->` : `<!-- ${END_MARKER} -->`;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function hasRegion(content: string, tweetId?: string): boolean {
+    return content.includes(startMarker(tweetId)) && content.includes(endMarker(tweetId));
+}
+
+/**
+ * Split a note into frontmatter and body
+ */
+export function splitFrontmatter(content: string): SplitNote {
+    const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/);
+    if (!match) {
+        return { frontmatter: null, body: content };
+    }
+    return { frontmatter: match[1], body: content.substring(match[0].length) };
+}
+
+/**
+ * Wrap a generated note's body in region markers, leaving the frontmatter outside them.
+ * Content that already contains markers (e.g. placed by a custom template) is returned unchanged.
+ */
+export function wrapNoteRegion(content: string): string {
+    if (hasRegion(content)) {
+        return content;
+    }
+
+    const { frontmatter, body } = splitFrontmatter(content);
+    const leadingWhitespace = body.match(/^\s*/)?.[0] || '';
+    const region = `${startMarker()}\n${body.substring(leadingWhitespace.length).replace(/\s+$/, '')}\n${endMarker()}`;
+    return frontmatter !== null ? `---\n${frontmatter}\n---\n${leadingWhitespace}${region}` : region;
+}
+
+/**
+ * Wrap a bookmark's section of a single file in region markers tagged with its tweet ID
+ */
+export function wrapSectionRegion(content: string, tweetId: string): string {
+    if (hasRegion(content, tweetId)) {
+        return content;
+    }
+    return `${startMarker(tweetId)}\n${content.replace(/\s+$/, '')}\n${endMarker(tweetId)}`;
+}
+
+/**
+ * Replace the region in content with the region from newly generated content
+ * @returns The updated content, or null if either one has no region to replace
+ */
+export function replaceRegion(content: string, generated: string, tweetId?: string): string | null {
+    const pattern = new RegExp(`${escapeRegExp(startMarker(tweetId))}[\\s\\S]*?${escapeRegExp(endMarker(tweetId))}`);
+    const generatedRegion = generated.match(pattern);
+    if (!generatedRegion || !pattern.test(content)) {
+        return null;
+    }
+    // Use a replacer function so $ sequences in tweet text are not treated as patterns
+    return content.replace(pattern, () => generatedRegion[0]);
+}
+
+/**
+ * Refresh an existing note from newly generated content.
+ * The generated frontmatter properties replace the note's properties of the same name, and
+ * the marked region is replaced; everything else in the note is kept.
+ * @param keepProperties Generated properties that are only added when the note doesn't have them yet
+ * @returns The updated content and whether the note had a region that could be updated
+ */
+export function refreshNote(existing: string, generated: string, keepProperties: string[] = []): { content: string; regionUpdated: boolean } {
+    const existingNote = splitFrontmatter(existing);
+    const generatedNote = splitFrontmatter(generated);
+
+    let frontmatter = existingNote.frontmatter;
+    if (generatedNote.frontmatter !== null) {
+        frontmatter = frontmatter !== null
+            ? mergeFrontmatter(frontmatter, generatedNote.frontmatter, keepProperties)
+            : generatedNote.frontmatter;
+    }
+
+    const updatedBody = replaceRegion(existingNote.body, generatedNote.body);
+    const body = updatedBody !== null ? updatedBody : existingNote.body;
+
+    // Keep the blank line after the frontmatter if the note didn't have frontmatter before
+    const separator = existingNote.frontmatter === null && frontmatter !== null && !body.startsWith('\n') ? '\n' : '';
+    return {
+        content: frontmatter !== null ? `---\n${frontmatter}\n---\n${separator}${body}` : body,
+        regionUpdated: updatedBody !== null
+    };
+}
+
+/**
+ * Merge generated frontmatter into existing frontmatter, property by property
+ */
+function mergeFrontmatter(existing: string, generated: string, keepProperties: string[]): string {
+    const blocks = parseFrontmatterBlocks(existing);
+
+    for (const generatedBlock of parseFrontmatterBlocks(generated)) {
+        if (generatedBlock.key === null) continue;
+        const existingBlock = blocks.find(block => block.key === generatedBlock.key);
+        if (existingBlock) {
+            if (!keepProperties.includes(generatedBlock.key)) {
+                existingBlock.lines = generatedBlock.lines;
+            }
+        } else {
+            blocks.push(generatedBlock);
+        }
+    }
+
+    return blocks.map(block => block.lines.join('\n')).join('\n');
+}
+
+/**
+ * Split frontmatter into top-level properties. Indented lines, list items and comments
+ * belong to the property above them.
+ */
+function parseFrontmatterBlocks(frontmatter: string): FrontmatterBlock[] {
+    const blocks: FrontmatterBlock[] = [];
+
+    for (const line of frontmatter.split(/\r?\n/)) {
+        const keyMatch = line.match(/^(?!- )([^\s#-][^:]*):(?:\s|$)/);
+        if (keyMatch) {
+            blocks.push({ key: keyMatch[1].trim(), lines: [line] });
+        } else if (blocks.length > 0) {
+            blocks[blocks.length - 1].lines.push(line);
+        } else {
+            blocks.push({ key: null, lines: [line] });
+        }
+    }
+
+    return blocks;
+}
\ No newline at end of file
@@ -0,0 +1,216 @@
+import { App } from 'obsidian';
+import { getDeviceId } from './bookmark-storage';
+
+/**
+ * The device holding the sync lease and how long the lease is valid
+ */
+export interface SyncLeaseHolder {
+    deviceId: string;
+    acquiredAt: number;
+    heartbeatAt: number;
+    expiresAt: number;
+}
+
+/**
+ * Thrown when another device took over the lease while this device was syncing
+ */
+export class SyncLeaseLostError extends Error {
+    constructor(deviceId: string) {
+        super(`The sync was stopped because device ${deviceId} took over the sync lock`);
+        this.name = 'SyncLeaseLostError';
+    }
+}
+
+const LEASE_DURATION = 5 * 60 * 1000; // A lease without heartbeats expires after 5 minutes
+const HEARTBEAT_INTERVAL = 60 * 1000; // Renew the lease every minute while syncing
+
+/**
+ * A lock that lets only one device sync at a time.
+ * The lease is a file in the plugin folder, so other devices see it when the whole plugin folder
+ * is synced (Obsidian Sync doesn't copy it). While a sync runs the holder renews it with a
+ * heartbeat; a lease that is not renewed expires and can be reclaimed, so a crash or a closed
+ * Obsidian never blocks syncing for long.
+ */
+export class SyncLease {
+    private app: App;
+    private leasePath: string;
+    private deviceId: string;
+    private held: boolean = false;
+    private acquiring: boolean = false; // Set while acquire() runs, so a second sync can't start meanwhile
+    private lostTo: string | null = null; // Device that took over the lease during this sync
+    private heartbeatTimer: number | null = null;
+
+    /**
+     * Creates a new SyncLease instance
+     * @param app The Obsidian App instance
+     * @param leasePath Vault-relative path of the lease file
+     */
+    constructor(app: App, leasePath: string) {
+        this.app = app;
+        this.leasePath = leasePath;
+        this.deviceId = getDeviceId();
+    }
+
+    /**
+     * Whether this device currently holds the lease, or is taking it
+     */
+    public get isHeld(): boolean {
+        return this.held || this.acquiring;
+    }
+
+    /**
+     * Stop a running sync if another device has taken over the lease
+     * @throws SyncLeaseLostError if the lease was lost
+     */
+    public assertHeld(): void {
+        if (this.lostTo !== null) {
+            throw new SyncLeaseLostError(this.lostTo);
+        }
+    }
+
+    /**
+     * Check if a lease holder is this device
+     */
+    public isThisDevice(holder: SyncLeaseHolder): boolean {
+        return holder.deviceId === this.deviceId;
+    }
+
+    /**
+     * Get the device holding the lease
+     * @returns The holder, or null if the lease is free or has expired
+     */
+    public async getHolder(): Promise<SyncLeaseHolder | null> {
+        const holder = await this.readLease();
+        if (!holder || holder.expiresAt <= Date.now()) {
+            return null;
+        }
+        return holder;
+    }
+
+    /**
+     * Try to take the lease and start renewing it
+     * An expired lease is reclaimed, as is one this device left behind when Obsidian was closed mid-sync.
+     * @returns True if this device now holds the lease, false if another sync holds it
+     */
+    public async acquire(): Promise<boolean> {
+        // Claim the lease before the first await, so two syncs on this device can't both take it
+        if (this.held || this.acquiring) {
+            return false;
+        }
+        this.acquiring = true;
+        try {
+            return await this.takeLease();
+        } finally {
+            this.acquiring = false;
+        }
+    }
+
+    private async takeLease(): Promise<boolean> {
+        const current = await this.readLease();
+        if (current && current.expiresAt > Date.now() && !this.isThisDevice(current)) {
+            return false;
+        }
+        if (current) {
+            console.log(`[Bookmark Bridge] Reclaiming sync lease left by device ${current.deviceId} (last heartbeat ${new Date(current.heartbeatAt).toISOString()})`);
+        }
+
+        const now = Date.now();
+        await this.writeLease({
+            deviceId: this.deviceId,
+            acquiredAt: now,
+            heartbeatAt: now,
+            expiresAt: now + LEASE_DURATION
+        });
+
+        // Make sure another writer didn't take the lease at the same moment
+        const written = await this.readLease();
+        if (!written || !this.isThisDevice(written)) {
+            return false;
+        }
+
+        this.held = true;
+        this.lostTo = null;
+        this.heartbeatTimer = window.setInterval(() => this.renew(), HEARTBEAT_INTERVAL);
+        return true;
+    }
+
+    /**
+     * Stop renewing the lease and free it for other devices
+     */
+    public async release(): Promise<void> {
+        this.stopHeartbeat();
+        if (!this.held) {
+            return;
+        }
+        this.held = false;
+
+        try {
+            const current = await this.readLease();
+            if (current && this.isThisDevice(current)) {
+                await this.app.vault.adapter.remove(this.leasePath);
+            }
+        } catch (error) {
+            console.error('[Bookmark Bridge] Failed to release sync lease:', error);
+        }
+    }
+
+    /**
+     * Extend the lease while a sync is still running, or give it up if another device has taken it
+     */
+    private async renew(): Promise<void> {
+        if (!this.held) {
+            return;
+        }
+
+        const current = await this.readLease();
+        if (current && !this.isThisDevice(current)) {
+            // The running sync stops at its next assertHeld() check; the lease is left to the other device
+            console.error(`[Bookmark Bridge] Sync lease was taken over by device ${current.deviceId}`);
+            this.stopHeartbeat();
+            this.held = false;
+            this.lostTo = current.deviceId;
+            return;
+        }
+        // The lease may have been released while it was being read
+        if (!this.held) {
+            return;
+        }
+
+        const now = Date.now();
+        await this.writeLease({
+            deviceId: this.deviceId,
+            acquiredAt: current?.acquiredAt || now,
+            heartbeatAt: now,
+            expiresAt: now + LEASE_DURATION
+        });
+    }
+
+    private stopHeartbeat(): void {
+        if (this.heartbeatTimer !== null) {
+            window.clearInterval(this.heartbeatTimer);
+            this.heartbeatTimer = null;
+        }
+    }
+
+    private async readLease(): Promise<SyncLeaseHolder | null> {
+        try {
+            const adapter = this.app.vault.adapter;
+            if (!(await adapter.exists(this.leasePath))) {
+                return null;
+            }
+            return JSON.parse(await adapter.read(this.leasePath)) as SyncLeaseHolder;
+        } catch (error) {
+            // An unreadable lease file is treated as free so it can't block syncing
+            console.error('[Bookmark Bridge] Failed to read sync lease:', error);
+            return null;
+        }
+    }
+
+    private async writeLease(holder: SyncLeaseHolder): Promise<void> {
+        try {
+            await this.app.vault.adapter.write(this.leasePath, JSON.stringify(holder));
+        } catch (error) {
+            console.error('[Bookmark Bridge] Failed to write sync lease:', error);
+        }
+    }
+}
\ No newline at end of file
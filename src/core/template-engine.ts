@@ -0,0 +1,436 @@
+import { moment } from 'obsidian';
+
+/**
+ * A Mustache-compatible template engine for bookmark notes.
+ *
+ * Supported tags:
+ * - `{{name}}`, `{{quotedTweet.authorName}}`, `{{.}}`: insert a value. Notes are Markdown, so values are
+ *   inserted as they are; `{{{name}}}` and `{{& name}}` do the same for compatibility with Mustache templates.
+ * - `{{helper arg "text" 10}}`: call a helper, e.g. `{{truncate text 50}}` or `{{yamlEscape (lower authorName)}}`
+ * - `{{#name}}...{{/name}}`: render for each item of a list, with the fields of an object, or once if the value is truthy
+ * - `{{^name}}...{{/name}}`: render if the value is missing, false, empty or an empty list
+ * - `{{! comment }}`: left out of the output
+ * - `\{{`: a literal `{{`
+ *
+ * Section and comment tags on a line of their own don't leave an empty line behind.
+ */
+
+/**
+ * Thrown when a template can't be parsed, with the position of the problem
+ */
+export class TemplateSyntaxError extends Error {
+    line: number;
+    column: number;
+
+    constructor(message: string, line: number, column: number) {
+        super(`Template error on line ${line}, column ${column}: ${message}`);
+        this.name = 'TemplateSyntaxError';
+        this.line = line;
+        this.column = column;
+    }
+}
+
+type Expression =
+    | { type: 'path'; path: string }
+    | { type: 'literal'; value: string | number }
+    | { type: 'call'; helper: string; args: Expression[] };
+
+type TemplateNode =
+    | { type: 'text'; text: string }
+    | { type: 'value'; expression: Expression }
+    | { type: 'section'; path: string; inverted: boolean; children: TemplateNode[] };
+
+/**
+ * A tag or piece of text found while scanning a template
+ */
+interface Token {
+    kind: 'text' | 'value' | 'open' | 'inverted' | 'close' | 'comment';
+    content: string;
+    start: number; // Offset of the token in the template
+    end: number;
+}
+
+const hasOwnProperty = Object.prototype.hasOwnProperty;
+
+type Helper = (args: unknown[], lookup: (path: string) => unknown) => unknown;
+
+const HELPERS: Record<string, Helper> = {
+    /**
+     * {{date "YYYY-MM-DD"}} formats the tweet's date, {{date value "YYYY-MM-DD"}} any other date
+     * Formats use moment.js tokens, as in Obsidian's daily notes.
+     */
+    date: (args, lookup) => {
+        const [value, format] = args.length > 1 ? args : [lookup('createdAt'), args[0]];
+        if (value === undefined || value === null || value === '') return '';
+        const date = moment(value as Date | string | number);
+        return date.isValid() ? date.format(typeof format === 'string' ? format : undefined) : '';
+    },
+    /**
+     * {{truncate text 100}} shortens text to at most 100 characters, ending in "…" if it was cut
+     */
+    truncate: (args) => {
+        const characters = Array.from(stringify(args[0]));
+        const length = Number(args[1]);
+        if (!isFinite(length) || characters.length <= length) return characters.join('');
+        const suffix = args.length > 2 ? stringify(args[2]) : '…';
+        return characters.slice(0, Math.max(length - Array.from(suffix).length, 0)).join('') + suffix;
+    },
+    /**
+     * {{slug text}} turns text into lowercase words joined by hyphens, keeping letters of every script
+     */
+    slug: (args) => stringify(args[0])
+        .normalize('NFKC')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}\p{M}]+/gu, '-')
+        .replace(/^-+|-+$/g, ''),
+    lower: (args) => stringify(args[0]).toLowerCase(),
+    upper: (args) => stringify(args[0]).toUpperCase(),
+    /**
+     * {{yamlEscape authorName}} escapes text for use inside a double-quoted YAML string
+     */
+    yamlEscape: (args) => stringify(args[0])
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\r/g, '\\r')
+        .replace(/\n/g, '\\n')
+        .replace(/\t/g, '\\t')
+};
+
+/**
+ * Get the names of the helpers templates can call
+ */
+export function getTemplateHelperNames(): string[] {
+    return Object.keys(HELPERS);
+}
+
+/**
+ * Convert a value to the text inserted into a note
+ */
+function stringify(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    if (value instanceof Date) return value.toISOString();
+    if (Array.isArray(value)) return value.map(stringify).join(', ');
+    if (typeof value === 'object') return '';
+    return String(value);
+}
+
+/**
+ * Get the 1-based line and column of an offset in the template
+ */
+function getPosition(template: string, offset: number): { line: number; column: number } {
+    const before = template.substring(0, offset);
+    const lineStart = before.lastIndexOf('\n') + 1;
+    return { line: before.split('\n').length, column: offset - lineStart + 1 };
+}
+
+function syntaxError(template: string, offset: number, message: string): TemplateSyntaxError {
+    const { line, column } = getPosition(template, offset);
+    return new TemplateSyntaxError(message, line, column);
+}
+
+/**
+ * Split a template into text and tags
+ */
+function tokenize(template: string): Token[] {
+    const tokens: Token[] = [];
+    let text = '';
+    let textStart = 0;
+    let index = 0;
+
+    const pushText = () => {
+        if (text) {
+            tokens.push({ kind: 'text', content: text, start: textStart, end: index });
+        }
+        text = '';
+    };
+
+    while (index < template.length) {
+        // \{{ is a literal {{
+        if (template.startsWith('\\{{', index)) {
+            if (!text) textStart = index;
+            text += '{{';
+            index += 3;
+            continue;
+        }
+        if (!template.startsWith('{{', index)) {
+            if (!text) textStart = index;
+            text += template[index];
+            index++;
+            continue;
+        }
+
+        pushText();
+        const tagStart = index;
+        const triple = template.startsWith('{{{', index);
+        const closing = triple ? '}}}' : '}}';
+        const contentStart = index + (triple ? 3 : 2);
+        const contentEnd = template.indexOf(closing, contentStart);
+        if (contentEnd === -1) {
+            throw syntaxError(template, tagStart, `"${triple ? '{{{' : '{{'}" is never closed with "${closing}"`);
+        }
+
+        let content = template.substring(contentStart, contentEnd).trim();
+        let kind: Token['kind'] = 'value';
+        if (!triple) {
+            const sigil = content.charAt(0);
+            if (sigil === '#') kind = 'open';
+            else if (sigil === '^') kind = 'inverted';
+            else if (sigil === '/') kind = 'close';
+            else if (sigil === '!') kind = 'comment';
+            if (kind !== 'value' || sigil === '&') {
+                content = content.substring(1).trim();
+            }
+        }
+        if (!content && kind !== 'comment') {
+            throw syntaxError(template, tagStart, 'Empty tag');
+        }
+
+        index = contentEnd + closing.length;
+        tokens.push({ kind, content, start: tagStart, end: index });
+        textStart = index;
+    }
+    pushText();
+
+    return stripStandaloneTags(tokens);
+}
+
+/**
+ * Remove the indentation and line break around section and comment tags that are alone on their line
+ */
+function stripStandaloneTags(tokens: Token[]): Token[] {
+    // Decide which tags are standalone before changing any text around them
+    const standalone = tokens.map((token, i) => {
+        if (token.kind === 'text' || token.kind === 'value') return false;
+        const previous = i > 0 ? tokens[i - 1] : null;
+        const next = i < tokens.length - 1 ? tokens[i + 1] : null;
+        const startsLine = previous === null
+            || (previous.kind === 'text' && (/\n[ \t]*$/.test(previous.content) || (i === 1 && /^[ \t]*$/.test(previous.content))));
+        const endsLine = next === null || (next.kind === 'text' && /^[ \t]*(\r?\n|$)/.test(next.content));
+        return startsLine && endsLine;
+    });
+
+    tokens.forEach((token, i) => {
+        if (!standalone[i]) return;
+        const previous = i > 0 ? tokens[i - 1] : null;
+        const next = i < tokens.length - 1 ? tokens[i + 1] : null;
+        if (previous && previous.kind === 'text') {
+            previous.content = previous.content.replace(/[ \t]*$/, '');
+        }
+        if (next && next.kind === 'text') {
+            next.content = next.content.replace(/^[ \t]*(\r?\n)?/, '');
+        }
+    });
+
+    return tokens.filter(token => token.kind !== 'text' || token.content);
+}
+
+/**
+ * Parse the contents of a value tag into an expression
+ */
+function parseExpression(template: string, token: Token): Expression {
+    const source = token.content;
+    let index = 0;
+
+    const fail = (message: string) => syntaxError(template, token.start, `${message} in "{{${source}}}"`);
+
+    const skipWhitespace = () => {
+        while (index < source.length && /\s/.test(source[index])) index++;
+    };
+
+    const parseTerm = (): Expression => {
+        skipWhitespace();
+        const char = source[index];
+        if (char === '(') {
+            index++;
+            const terms = parseTerms(')');
+            if (source[index] !== ')') throw fail('Missing ")"');
+            index++;
+            return toExpression(terms);
+        }
+        if (char === '"' || char === '\'') {
+            // A backslash keeps the next character, so a string can contain its own quote: "a \"b\""
+            let value = '';
+            for (index++; index < source.length && source[index] !== char; index++) {
+                if (source[index] === '\\' && index + 1 < source.length) index++;
+                value += source[index];
+            }
+            if (index >= source.length) throw fail('Unclosed quote');
+            index++;
+            return { type: 'literal', value };
+        }
+        const match = source.substring(index).match(/^[^\s()"']+/);
+        if (!match) throw fail(`Unexpected "${char}"`);
+        index += match[0].length;
+        if (/^-?\d+(\.\d+)?$/.test(match[0])) {
+            return { type: 'literal', value: Number(match[0]) };
+        }
+        return { type: 'path', path: match[0] };
+    };
+
+    const parseTerms = (terminator: string | null): Expression[] => {
+        const terms: Expression[] = [];
+        skipWhitespace();
+        while (index < source.length && source[index] !== terminator) {
+            terms.push(parseTerm());
+            skipWhitespace();
+        }
+        return terms;
+    };
+
+    const toExpression = (terms: Expression[]): Expression => {
+        if (terms.length === 0) throw fail('Missing value');
+        if (terms.length === 1) return terms[0];
+        const [helper, ...args] = terms;
+        if (helper.type !== 'path') throw fail('Expected a helper name');
+        if (!hasOwnProperty.call(HELPERS, helper.path)) {
+            throw fail(`Unknown helper "${helper.path}" (available: ${getTemplateHelperNames().join(', ')})`);
+        }
+        return { type: 'call', helper: helper.path, args };
+    };
+
+    const terms = parseTerms(null);
+    if (index < source.length) throw fail(`Unexpected "${source[index]}"`);
+    return toExpression(terms);
+}
+
+/**
+ * Parse a template into a tree of text, values and sections
+ * @throws TemplateSyntaxError if the template is not valid
+ */
+function parse(template: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    const stack: { path: string; start: number; children: TemplateNode[] }[] = [];
+    let children = root;
+
+    for (const token of tokenize(template)) {
+        switch (token.kind) {
+            case 'text':
+                children.push({ type: 'text', text: token.content });
+                break;
+            case 'value':
+                children.push({ type: 'value', expression: parseExpression(template, token) });
+                break;
+            case 'comment':
+                break;
+            case 'open':
+            case 'inverted': {
+                if (/\s/.test(token.content)) {
+                    throw syntaxError(template, token.start, `Section names can't contain spaces: "${token.content}"`);
+                }
+                const section: TemplateNode = { type: 'section', path: token.content, inverted: token.kind === 'inverted', children: [] };
+                children.push(section);
+                stack.push({ path: token.content, start: token.start, children });
+                children = section.children;
+                break;
+            }
+            case 'close': {
+                const open = stack.pop();
+                if (!open) {
+                    throw syntaxError(template, token.start, `"{{/${token.content}}}" closes a section that was never opened`);
+                }
+                if (open.path !== token.content) {
+                    const { line } = getPosition(template, open.start);
+                    throw syntaxError(template, token.start, `"{{/${token.content}}}" doesn't match "{{#${open.path}}}" opened on line ${line}`);
+                }
+                children = open.children;
+                break;
+            }
+        }
+    }
+
+    const unclosed = stack.pop();
+    if (unclosed) {
+        throw syntaxError(template, unclosed.start, `Section "${unclosed.path}" is never closed with "{{/${unclosed.path}}}"`);
+    }
+    return root;
+}
+
+/**
+ * Check a template for syntax errors
+ * @returns The first error found, or null if the template is valid
+ */
+export function validateTemplate(template: string): TemplateSyntaxError | null {
+    try {
+        parse(template);
+        return null;
+    } catch (error) {
+        if (error instanceof TemplateSyntaxError) return error;
+        throw error;
+    }
+}
+
+/**
+ * Render a template with data
+ * @param template The template text
+ * @param data The values available to the template; nested objects and lists can be used in sections
+ * @throws TemplateSyntaxError if the template is not valid
+ */
+export function renderTemplate(template: string, data: Record<string, unknown>): string {
+    return renderNodes(parse(template), [data]);
+}
+
+function isFalsy(value: unknown): boolean {
+    return !value || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Look up a dotted path, searching the innermost section first as Mustache does
+ */
+function lookup(path: string, contexts: unknown[]): unknown {
+    if (path === '.') return contexts[contexts.length - 1];
+
+    const [first, ...rest] = path.split('.');
+    let value: unknown = undefined;
+    for (let i = contexts.length - 1; i >= 0; i--) {
+        const context = contexts[i];
+        // Only own properties, so names like constructor or toString don't resolve to built-ins
+        if (typeof context === 'object' && context !== null && hasOwnProperty.call(context, first)) {
+            value = (context as Record<string, unknown>)[first];
+            break;
+        }
+    }
+    for (const key of rest) {
+        if (typeof value !== 'object' || value === null || !hasOwnProperty.call(value, key)) return undefined;
+        value = (value as Record<string, unknown>)[key];
+    }
+    return value;
+}
+
+function evaluate(expression: Expression, contexts: unknown[]): unknown {
+    switch (expression.type) {
+        case 'literal':
+            return expression.value;
+        case 'path':
+            return lookup(expression.path, contexts);
+        case 'call':
+            return HELPERS[expression.helper](
+                expression.args.map(arg => evaluate(arg, contexts)),
+                (path) => lookup(path, contexts)
+            );
+    }
+}
+
+function renderNodes(nodes: TemplateNode[], contexts: unknown[]): string {
+    let output = '';
+    for (const node of nodes) {
+        if (node.type === 'text') {
+            output += node.text;
+        } else if (node.type === 'value') {
+            output += stringify(evaluate(node.expression, contexts));
+        } else {
+            const value = lookup(node.path, contexts);
+            if (node.inverted) {
+                if (isFalsy(value)) {
+                    output += renderNodes(node.children, contexts);
+                }
+            } else if (Array.isArray(value)) {
+                for (const item of value) {
+                    output += renderNodes(node.children, [...contexts, item]);
+                }
+            } else if (!isFalsy(value)) {
+                output += renderNodes(node.children, [...contexts, value]);
+            }
+        }
+    }
+    return output;
+}
\ No newline at end of file
@@ -1,114 +1,43 @@
-import { App, Plugin, PluginSettingTab, Setting, Notice, DropdownComponent, ButtonComponent, TextComponent, TextAreaComponent, ToggleComponent } from 'obsidian';
-import { TwitterService } from './services/twitter-service';
+import { App, FuzzySuggestModal, Modal, Plugin, PluginSettingTab, Setting, Notice, TAbstractFile, TFile, DropdownComponent, ButtonComponent, TextComponent, TextAreaComponent, ToggleComponent } from 'obsidian';
+import { BookmarkPage, TwitterBookmark, TwitterService } from './services/twitter-service';
+import { RateLimitBudgetError } from './services/rate-limits';
+import { BookmarkBackup, BookmarkBackupManager, BackupValidationReport } from './core/bookmark-backup';
+import { BookmarkConditionType, CONDITION_TYPES, describeCondition } from './core/bookmark-conditions';
 import { BookmarkProcessor } from './core/bookmark-processor';
-import { BookmarkStorage } from './core/bookmark-storage';
-
-interface BookmarkBridgeSettings {
-	// OAuth 2.0 credentials
-	clientId: string;
-	clientSecret: string;
-	oauth2AccessToken: string;
-	oauth2RefreshToken: string;
-	codeVerifier: string;
-	
-	// Storage settings
-	storageMethod: 'separate' | 'single'; // Store bookmarks as separate files or in a single file
-	targetFolder: string;
-	singleFileName: string; // Filename for single file storage
-	
-	// Sync state
-	lastSyncTimestamp: number;
-	logFile: string;
-	
-	// Template settings
-	template: string; // Template for all bookmark formats
-	useCustomTemplate: boolean; // Whether to use custom templates
-	
-	// Pagination tracking
-	nextPaginationToken: string; // Token for the next page of bookmarks
-	initialSyncComplete: boolean; // Whether we've completed the initial full sync
-	lastSyncPage: number; // Last page of bookmarks we've synced
-	lastSyncTime: number; // Timestamp of the last sync attempt (for rate limit tracking)
-	
-	// Automatic sync settings
-	autoSync: boolean; // Whether to automatically sync bookmarks
-	syncInProgress: boolean; // Whether a sync is currently in progress
-	
-	// Debug settings
-	bypassRateLimit: boolean; // DEBUG ONLY: Bypass the built-in rate limit check
-}
-
-const DEFAULT_SETTINGS: BookmarkBridgeSettings = {
-	// OAuth 2.0 defaults
-	clientId: '',
-	clientSecret: '',
-	oauth2AccessToken: '',
-	oauth2RefreshToken: '',
-	codeVerifier: '',
-	
-	// Storage defaults
-	storageMethod: 'separate', // Default to separate files
-	targetFolder: 'Twitter Bookmarks',
-	singleFileName: 'twitter-bookmarks.md', // Default filename for single file storage
-	
-	// Sync state
-	lastSyncTimestamp: 0,
-	logFile: '', // Will be set on plugin load
-	
-	// Template defaults
-	useCustomTemplate: false,
-	template: `---
-tweet_id: "{{id}}"
-author: "@{{authorUsername}} ({{authorName}})"
-date: "{{date}} {{time}}"
----
-
-# Tweet by @{{authorUsername}}
-
-{{text}}
-
-{{#hasMedia}}
-## Media
-
-{{#mediaUrls}}
-![]({{.}})
-
-{{/mediaUrls}}
-{{/hasMedia}}
-
-[View on Twitter]({{tweetUrl}})`,
-
-	// Pagination defaults
-	nextPaginationToken: '',
-	initialSyncComplete: false,
-	lastSyncPage: 0,
-	lastSyncTime: 0,
-	
-	// Automatic sync defaults
-	autoSync: true,
-	syncInProgress: false,
-	
-	// Debug defaults
-	bypassRateLimit: false
-};
+import { BookmarkStorage, JournalPage } from './core/bookmark-storage';
+import { ConditionalTemplate } from './core/conditional-templates';
+import { FolderRoutingRule } from './core/folder-routing';
+import { FRONTMATTER_PROPERTIES, FrontmatterPropertyName, parseStaticProperties } from './core/frontmatter';
+import { IndexRebuilder, IndexRebuildReport } from './core/index-rebuilder';
+import { SyncLease, SyncLeaseHolder, SyncLeaseLostError } from './core/sync-lease';
+import { validateTemplate } from './core/template-engine';
+import { BookmarkBridgeSettings, checkSettingValue, DEFAULT_SETTINGS, LoadedSettings, parseSettings } from './settings';
 
 export default class BookmarkBridgePlugin extends Plugin {
 	settings: BookmarkBridgeSettings;
 	twitterService: TwitterService;
 	bookmarkProcessor: BookmarkProcessor;
 	bookmarkStorage: BookmarkStorage;
+	syncLease: SyncLease;
 	syncTimer: NodeJS.Timeout | null = null;
 	private authState: string | null = null;
 	private currentCodeVerifier: string | null = null; // Store code verifier for the current auth attempt
 	private isSyncCooldown: boolean = false; // Global sync cooldown flag
+	private syncRunning: boolean = false; // Set until syncBookmarks returns, even after the sync lost its lease
 	private nextAllowedSyncTime: number = 0; // Timestamp for next allowed sync
+	private settingsLoadResult: LoadedSettings | null = null; // Reported once logging is available
 
 	async onload() {
 		await this.loadSettings();
 
 		// Initialize services FIRST, so logging is available
 		this.twitterService = new TwitterService(this.settings, this.saveSettings.bind(this));
-		this.bookmarkStorage = new BookmarkStorage(this.app);
+		this.reportSettingsLoadResult();
+		// Bookmark data lives in the plugin folder; other devices only see it if the whole folder is synced
+		const pluginDir = this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		this.bookmarkStorage = new BookmarkStorage(this.app, `${pluginDir}/bookmark-data`);
+		// Only one device syncs at a time
+		this.syncLease = new SyncLease(this.app, `${pluginDir}/sync-lease.json`);
 		this.bookmarkProcessor = new BookmarkProcessor(this.app, this.settings, this.bookmarkStorage);
 
 		if (!this.settings.logFile) {
@@ -119,6 +48,10 @@ export default class BookmarkBridgePlugin extends Plugin {
 			this.twitterService.log(`Setting log file path to: ${this.settings.logFile}`, 'info');
 		}
 
+		// Keep bookmark records pointing at their notes as the user reorganizes the vault
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.handleNoteRenamed(file, oldPath)));
+		this.registerEvent(this.app.vault.on('delete', (file) => this.handleNoteDeleted(file)));
+
 		// Log important setup information that can help users troubleshoot
 		this.logOAuthSetupInstructions();
 		
@@ -140,6 +73,41 @@ export default class BookmarkBridgePlugin extends Plugin {
 			}
 		});
 
+		// Add command to recover the import index from notes already in the vault
+		this.addCommand({
+			id: 'rebuild-index-from-vault',
+			name: 'Rebuild index from vault',
+			callback: async () => {
+				await this.rebuildIndexFromVault();
+			}
+		});
+
+		// Add command to apply template and file name changes to imported notes without calling the API
+		this.addCommand({
+			id: 're-render-all-notes',
+			name: 'Re-render all notes',
+			callback: async () => {
+				await this.rerenderAllNotes();
+			}
+		});
+
+		// Add commands to snapshot the import state before risky changes and to restore it
+		this.addCommand({
+			id: 'export-bookmark-backup',
+			name: 'Export bookmark data backup',
+			callback: async () => {
+				await this.exportBackup();
+			}
+		});
+
+		this.addCommand({
+			id: 'restore-bookmark-backup',
+			name: 'Restore bookmark data from backup',
+			callback: () => {
+				this.chooseBackupToRestore();
+			}
+		});
+
 		// Add test command to check if protocol handler works
 		this.addCommand({
 			id: 'test-protocol-handler',
@@ -176,7 +144,7 @@ export default class BookmarkBridgePlugin extends Plugin {
 		this.twitterService.log('Starting automatic sync system', 'info');
 		
 		// Prevent starting sync if we're in cooldown or a sync is already in progress
-		if (this.isSyncCooldown || this.settings.syncInProgress) {
+		if (this.isSyncCooldown || this.isSyncInProgress()) {
 			const reason = this.isSyncCooldown ? 'sync cooldown active' : 'sync already in progress';
 			this.twitterService.log(`Not starting auto-sync: ${reason}`, 'info');
 			return;
@@ -233,11 +201,9 @@ export default class BookmarkBridgePlugin extends Plugin {
 			return;
 		}
 		
-		// Don't schedule a new sync if one is already in progress or we're in cooldown
-		// Skip cooldown check if bypass is enabled
-		if (this.settings.syncInProgress || (!this.settings.bypassRateLimit && this.isInCooldown())) {
-			const reason = this.settings.syncInProgress ? 'sync in progress' : 'in cooldown period';
-			this.twitterService.log(`Not scheduling sync: ${reason}`, 'info');
+		// Don't schedule a new sync if one is already in progress
+		if (this.isSyncInProgress()) {
+			this.twitterService.log('Not scheduling sync: sync in progress', 'info');
 			return;
 		}
 		
@@ -246,29 +212,26 @@ export default class BookmarkBridgePlugin extends Plugin {
 			this.twitterService.log(`⚠️ DEBUG: Bypassing rate limit window for scheduling due to debug setting`, 'info');
 		}
 		
-		// Calculate time since last sync attempt
+		// Wait for X's rate limit window to reset and for any cooldown to expire
 		const now = Date.now();
-		const timeElapsed = now - this.settings.lastSyncTime;
-		const RATE_LIMIT_WINDOW = 15 * 60 * 1000; // 15 minutes in milliseconds
+		const nextAllowedTime = this.settings.bypassRateLimit
+			? now
+			: Math.max(this.twitterService.getNextAllowedRequestTime(), this.nextAllowedSyncTime);
+		const timeToWait = nextAllowedTime - now;
 		
 		// Check if we need to start an initial sync or continue pagination
-		if (!this.settings.initialSyncComplete) {
+		// A saved pagination token after the initial sync means new bookmarks are still being walked
+		if (!this.settings.initialSyncComplete || this.settings.nextPaginationToken) {
 			// We need to continue with pagination or start the initial sync
 			
-			// Either bypass rate limit check or check elapsed time
-			if (this.settings.bypassRateLimit || this.settings.lastSyncTime === 0 || timeElapsed >= RATE_LIMIT_WINDOW) {
-				// We can sync now - either first sync ever or rate limit window passed or bypass enabled
+			if (timeToWait <= 0) {
+				// We can sync now - either requests remain in the window, the window reset, or bypass enabled
 				this.twitterService.log(`Auto-starting sync ${this.settings.lastSyncPage > 0 ? 'continuation' : 'initial'}`, 'info');
 				await this.syncBookmarks(true);
 			} else {
 				// We need to wait for the rate limit window
-				const timeToWait = RATE_LIMIT_WINDOW - timeElapsed;
 				const minutesToWait = Math.ceil(timeToWait/1000/60);
-				this.twitterService.log(`Rate limit not reset yet, scheduling next auto-sync in ${minutesToWait} minutes`, 'info');
-				
-				// Make sure we're not in "sync in progress" state
-				this.settings.syncInProgress = false;
-				await this.saveSettings();
+				this.twitterService.log(`Rate limit not reset yet, scheduling next auto-sync in ${minutesToWait} minutes (at ${new Date(nextAllowedTime).toISOString()})`, 'info');
 				
 				// Set cooldown to prevent other sync attempts
 				this.setCooldown(timeToWait); 
@@ -282,7 +245,7 @@ export default class BookmarkBridgePlugin extends Plugin {
 					this.twitterService.log('Auto-sync timer triggered after rate limit window', 'info');
 					// We're not awaiting this to prevent blocking
 					this.syncBookmarks(true);
-				}, timeToWait);
+				}, timeToWait + 1000); // Add 1 second to ensure the window has reset
 			}
 		} else if (this.settings.autoSync) {
 			// Initial sync complete, but we'll check again in 1 hour for new bookmarks
@@ -312,6 +275,13 @@ export default class BookmarkBridgePlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * Whether a sync is running on this device, including one that lost its lease and is still stopping
+	 */
+	isSyncInProgress(): boolean {
+		return this.syncRunning || this.syncLease.isHeld;
+	}
+
 	async syncBookmarks(isAutoSync: boolean = false) {
 		// Don't sync if we don't have required settings
 		if (!this.validateSettings(!isAutoSync)) {
@@ -360,18 +330,13 @@ export default class BookmarkBridgePlugin extends Plugin {
 			}
 		}
 		
-		// Check if a sync is already in progress
-		if (this.settings.syncInProgress) {
-			this.twitterService.log('Sync already in progress, not starting a new one', 'info');
-			if (!isAutoSync) {
-				new Notice('A sync is already in progress. Please wait for it to complete.');
-			}
+		// Take the sync lease, unless a sync is already running here or on another device.
+		// A sync that lost its lease runs until its next page check, so it still blocks a new one here.
+		if (this.syncRunning || !(await this.syncLease.acquire())) {
+			await this.handleSyncLeaseHeld(isAutoSync);
 			return;
 		}
-		
-		// Set the sync in progress flag
-		this.settings.syncInProgress = true;
-		await this.saveSettings();
+		this.syncRunning = true;
 		
 		try {
 			// Show status notification if this is a manual sync
@@ -387,7 +352,39 @@ export default class BookmarkBridgePlugin extends Plugin {
 			
 			// Get bookmarks from Twitter API
 			try {
-				const bookmarks = await this.twitterService.fetchBookmarks(this.settings.lastSyncTimestamp);
+				// Pick up bookmarks imported on other devices since the data was loaded
+				await this.bookmarkStorage.refresh();
+				// Finish pages left over from an interrupted sync before fetching more
+				const storedIds = await this.replaySyncJournal();
+				
+				// Each page is journaled, processed and only then is the pagination cursor saved
+				const knownBookmarkIds = new Set(await this.bookmarkStorage.getProcessedBookmarkIds());
+				let newBookmarks: TwitterBookmark[];
+				try {
+					newBookmarks = await this.twitterService.fetchBookmarks(knownBookmarkIds, async (page) => {
+						// Stop if another device took over the sync; the page is fetched again by its sync
+						this.syncLease.assertHeld();
+						storedIds.push(...await this.processJournaledPage(page));
+					});
+				} catch (fetchError) {
+					// Pages processed before the error are saved in the vault, so they can still be removed from X
+					if (this.settings.removeFromXAfterImport && storedIds.length > 0 && !(fetchError instanceof SyncLeaseLostError)) {
+						await this.removeImportedBookmarks(storedIds);
+					}
+					throw fetchError;
+				}
+				this.syncLease.assertHeld();
+				const reimportedBookmarks = await this.fetchBookmarksToReimport(newBookmarks);
+				if (reimportedBookmarks.length > 0) {
+					storedIds.push(...await this.processFetchedBookmarks(reimportedBookmarks));
+				}
+				const bookmarks = [...newBookmarks, ...reimportedBookmarks];
+				
+				// Only remove bookmarks from X once their notes are saved
+				if (this.settings.removeFromXAfterImport) {
+					this.syncLease.assertHeld();
+					await this.removeImportedBookmarks(storedIds);
+				}
 				
 				if (bookmarks.length === 0) {
 					this.twitterService.log(`No new bookmarks found`, 'info');
@@ -401,24 +398,13 @@ export default class BookmarkBridgePlugin extends Plugin {
 					
 					// If this was an auto-sync, schedule the next check
 					if (isAutoSync) {
-						this.settings.syncInProgress = false;
-						await this.saveSettings();
 						// Use setTimeout to avoid recursive call
 						setTimeout(() => this.checkAndScheduleSync(), 1000);
 					}
 					return;
 				}
 	
-				this.twitterService.log(`Retrieved ${bookmarks.length} bookmarks, processing...`, 'info');
-				
-				// Process and save bookmarks
-				try {
-					await this.bookmarkProcessor.processBookmarks(bookmarks);
-					this.twitterService.log(`Successfully processed ${bookmarks.length} bookmarks`, 'info');
-				} catch (processingError) {
-					this.twitterService.log(`Error processing bookmarks: ${(processingError as Error).message}`, 'error');
-					throw new Error(`Error processing bookmarks: ${(processingError as Error).message}`);
-				}
+				this.twitterService.log(`Retrieved and processed ${bookmarks.length} bookmarks`, 'info');
 	
 				// Only update the lastSyncTimestamp if we've completed the initial sync
 				if (this.settings.initialSyncComplete) {
@@ -427,7 +413,6 @@ export default class BookmarkBridgePlugin extends Plugin {
 				}
 				
 				// Save settings to persist pagination state
-				this.settings.syncInProgress = false;
 				await this.saveSettings();
 	
 				// Update notice if this was a manual sync
@@ -440,9 +425,11 @@ export default class BookmarkBridgePlugin extends Plugin {
 					setTimeout(() => notice?.hide(), 5000);
 				}
 				
-				// Set standard cooldown after successful sync
-				const cooldownTime = 15 * 60 * 1000; // 15 minutes standard cooldown
-				this.setCooldown(cooldownTime);
+				// Cool down until X's rate limit window allows another request
+				const cooldownTime = this.twitterService.getNextAllowedRequestTime() - Date.now();
+				if (cooldownTime > 0) {
+					this.setCooldown(cooldownTime);
+				}
 				
 				// If this was an auto-sync, schedule the next check after a delay
 				if (isAutoSync) {
@@ -491,14 +478,10 @@ export default class BookmarkBridgePlugin extends Plugin {
 				// Set appropriate cooldown after error
 				let cooldownTime = 5 * 60 * 1000; // Default: 5 minutes cooldown
 				
-				// If rate limited, extract the waiting time from the error message
-				if (errorMessage.includes('wait approximately')) {
-					const minutesMatch = errorMessage.match(/wait approximately (\d+) more minutes/);
-					if (minutesMatch && minutesMatch[1]) {
-						const waitMinutes = parseInt(minutesMatch[1], 10);
-						// Add a small buffer (1 minute) to ensure the rate limit has expired
-						cooldownTime = (waitMinutes + 1) * 60 * 1000;
-					}
+				// If rate limited, wait until X's rate limit window resets
+				const rateLimitWait = this.twitterService.getNextAllowedRequestTime() - Date.now();
+				if (rateLimitWait > 0) {
+					cooldownTime = rateLimitWait;
 				}
 				
 				this.setCooldown(cooldownTime);
@@ -518,12 +501,382 @@ export default class BookmarkBridgePlugin extends Plugin {
 				}
 			}
 		} finally {
-			// Always clear the sync in progress flag
-			this.settings.syncInProgress = false;
-			await this.saveSettings();
+			// Always free the lease for the next sync
+			await this.syncLease.release();
+			this.syncRunning = false;
+		}
+	}
+
+	/**
+	 * Tell the user a sync is already running, and retry an auto-sync once the lease is free
+	 */
+	private async handleSyncLeaseHeld(isAutoSync: boolean) {
+		const holder = await this.syncLease.getHolder();
+		const otherDevice = !this.syncRunning && holder !== null && !this.syncLease.isThisDevice(holder);
+		const message = otherDevice
+			? `A sync is already running on another device (${holder?.deviceId}).`
+			: 'A sync is already in progress. Please wait for it to complete.';
+		
+		this.twitterService.log(`Not starting sync: ${message}`, 'info');
+		if (!isAutoSync) {
+			new Notice(message);
+			return;
+		}
+		
+		// Try again after the other device's lease has been released or has expired
+		if (otherDevice && holder) {
+			const retryIn = Math.max(holder.expiresAt - Date.now(), 0) + 1000;
+			if (this.syncTimer) {
+				clearTimeout(this.syncTimer);
+			}
+			this.syncTimer = setTimeout(() => {
+				this.twitterService.log('Retrying auto-sync after the sync lease was held by another device', 'info');
+				this.syncBookmarks(true);
+			}, retryIn);
+		}
+	}
+
+	/**
+	 * Process bookmarks into notes
+	 * @returns IDs of the bookmarks that are stored in the vault
+	 */
+	private async processFetchedBookmarks(bookmarks: TwitterBookmark[]): Promise<string[]> {
+		try {
+			const storedIds = await this.bookmarkProcessor.processBookmarks(bookmarks);
+			this.twitterService.log(`Successfully processed ${bookmarks.length} bookmarks`, 'info');
+			return storedIds;
+		} catch (processingError) {
+			this.twitterService.log(`Error processing bookmarks: ${(processingError as Error).message}`, 'error');
+			throw new Error(`Error processing bookmarks: ${(processingError as Error).message}`);
+		}
+	}
+
+	/**
+	 * Journal a fetched page before processing it, so a failure or crash can't skip the page
+	 * @returns IDs of the bookmarks that are stored in the vault
+	 */
+	private async processJournaledPage(page: BookmarkPage): Promise<string[]> {
+		const journalPage = await this.bookmarkStorage.addJournalPage(page);
+		return await this.completeJournalPage(journalPage);
+	}
+
+	/**
+	 * Process a journaled page, then save its pagination cursor and remove it from the journal
+	 * @returns IDs of the bookmarks that are stored in the vault
+	 */
+	private async completeJournalPage(journalPage: JournalPage): Promise<string[]> {
+		const storedIds = await this.processFetchedBookmarks(journalPage.bookmarks);
+		
+		this.settings.nextPaginationToken = journalPage.cursor.nextPaginationToken;
+		this.settings.initialSyncComplete = journalPage.cursor.initialSyncComplete;
+		this.settings.lastSyncPage = journalPage.cursor.lastSyncPage;
+		await this.saveSettings();
+		
+		await this.bookmarkStorage.completeJournalPage(journalPage.id);
+		return storedIds;
+	}
+
+	/**
+	 * Process the pages left in the journal by an interrupted sync, oldest first.
+	 * Only called by a sync holding the lease, so no other sync replays the same pages.
+	 * @returns IDs of the bookmarks that are stored in the vault
+	 * @throws Error if a page still can't be processed; it stays in the journal for the next attempt
+	 */
+	private async replaySyncJournal(): Promise<string[]> {
+		const storedIds: string[] = [];
+		for (const journalPage of await this.bookmarkStorage.getPendingJournalPages()) {
+			this.syncLease.assertHeld();
+			this.twitterService.log(`Replaying unfinished page of ${journalPage.bookmarks.length} bookmark(s) fetched at ${new Date(journalPage.fetchedAt).toISOString()}`, 'info');
+			storedIds.push(...await this.completeJournalPage(journalPage));
+		}
+		return storedIds;
+	}
+
+	/**
+	 * Re-render every imported note from the cached API data with the current settings
+	 */
+	async rerenderAllNotes() {
+		if (this.isSyncInProgress()) {
+			new Notice('A sync is in progress. Try re-rendering once it has finished.');
+			return;
+		}
+		
+		const notice = new Notice('Re-rendering bookmark notes...', 0);
+		try {
+			const report = await this.bookmarkProcessor.rerenderAllNotes();
+			this.twitterService.log(`Re-rendered notes from cache: ${JSON.stringify(report)}`, 'info');
+			
+			let message = `Re-rendered notes: ${report.updated} updated, ${report.moved} moved, ${report.unchanged} unchanged.`;
+			if (report.missingData > 0) {
+				message += ` ${report.missingData} bookmark(s) were imported before their data was cached and were skipped.`;
+			}
+			if (report.notUpdatable > 0) {
+				message += ` ${report.notUpdatable} single-file section(s) have no markers and were skipped.`;
+			}
+			if (report.failed > 0) {
+				message += ` ${report.failed} failed, see the log for details.`;
+			}
+			notice.setMessage(message);
+			setTimeout(() => notice.hide(), 8000);
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			this.twitterService.log(`Error re-rendering notes: ${errorMessage}`, 'error');
+			notice.setMessage(`Could not re-render notes: ${errorMessage}`);
+			setTimeout(() => notice.hide(), 5000);
 		}
 	}
 
+	/**
+	 * Describe where the notes of imported bookmarks go with the current folder routing rules
+	 * @param input A tweet ID or link; empty to test the most recently imported bookmarks
+	 * @returns One line per bookmark tested, or a line explaining why nothing could be tested
+	 */
+	async testFolderRouting(input: string): Promise<string[]> {
+		let tweetIds: string[];
+		const trimmed = input.trim();
+		if (trimmed) {
+			const idMatch = trimmed.match(/status(?:es)?\/(\d+)/) || trimmed.match(/^(\d+)$/);
+			if (!idMatch) {
+				return ['Enter a tweet ID or a link to a tweet.'];
+			}
+			tweetIds = [idMatch[1]];
+		} else {
+			const records = await this.bookmarkStorage.getAllBookmarks();
+			tweetIds = records
+				.filter(record => !record.deletedAt)
+				.sort((a, b) => b.importDate.getTime() - a.importDate.getTime())
+				.slice(0, 5)
+				.map(record => record.tweetId);
+			if (tweetIds.length === 0) {
+				return ['No bookmarks have been imported yet.'];
+			}
+		}
+		
+		const rules = this.settings.folderRoutingRules;
+		const lines: string[] = [];
+		for (const tweetId of tweetIds) {
+			const bookmark = await this.bookmarkStorage.getBookmarkPayload(tweetId);
+			if (!bookmark) {
+				lines.push(`${tweetId}: no cached data for this bookmark. Only bookmarks imported by a recent sync can be tested.`);
+				continue;
+			}
+			
+			const label = `@${bookmark.authorUsername}: "${bookmark.text.replace(/\s+/g, ' ').substring(0, 40)}"`;
+			try {
+				const route = this.bookmarkProcessor.getNoteRoute(bookmark);
+				const reason = route.ruleIndex === -1
+					? 'no rule matches'
+					: `rule ${route.ruleIndex + 1}: ${describeCondition(rules[route.ruleIndex])}`;
+				lines.push(`${label} → ${route.folderPath} (${reason})`);
+			} catch (error) {
+				lines.push(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+			}
+		}
+		return lines;
+	}
+
+	/**
+	 * Update bookmark records when a note, or a folder containing notes, is renamed or moved
+	 */
+	private async handleNoteRenamed(file: TAbstractFile, oldPath: string) {
+		try {
+			const count = await this.bookmarkStorage.updateFilePaths(oldPath, file.path);
+			if (count > 0) {
+				this.twitterService.log(`Updated ${count} bookmark record(s) after ${oldPath} was renamed to ${file.path}`, 'debug');
+			}
+		} catch (error) {
+			// The records are updated in memory and saved by the next write
+			this.twitterService.log(`Could not save bookmark records after ${oldPath} was renamed: ${(error as Error).message}`, 'error');
+		}
+	}
+
+	/**
+	 * Remember bookmarks whose notes were deleted, so they are either imported again or left alone
+	 */
+	private async handleNoteDeleted(file: TAbstractFile) {
+		const reimport = this.settings.deletedNoteBehavior === 'reimport';
+		try {
+			const count = await this.bookmarkStorage.markNotesDeleted(file.path, reimport);
+			if (count > 0) {
+				this.twitterService.log(`${count} bookmark note(s) deleted with ${file.path}, ${reimport ? 'will re-import on the next sync' : 'kept as deleted'}`, 'info');
+			}
+		} catch (error) {
+			// The records are updated in memory and saved by the next write
+			this.twitterService.log(`Could not save bookmark records after ${file.path} was deleted: ${(error as Error).message}`, 'error');
+		}
+	}
+
+	/**
+	 * Fetch the bookmarks whose notes were deleted while re-importing is enabled.
+	 * Failures are logged and retried on the next sync rather than failing the whole sync.
+	 * @param fetchedBookmarks Bookmarks already fetched in this sync, which don't need to be looked up
+	 */
+	private async fetchBookmarksToReimport(fetchedBookmarks: TwitterBookmark[]): Promise<TwitterBookmark[]> {
+		if (this.settings.deletedNoteBehavior !== 'reimport') {
+			return [];
+		}
+		
+		const fetchedIds = new Set(fetchedBookmarks.map(bookmark => bookmark.id));
+		const records = (await this.bookmarkStorage.getBookmarksToReimport()).filter(record => !fetchedIds.has(record.tweetId));
+		if (records.length === 0) {
+			return [];
+		}
+		
+		try {
+			this.twitterService.log(`Re-importing ${records.length} bookmark(s) whose notes were deleted`, 'info');
+			const bookmarks = await this.twitterService.fetchTweetsByIds(records.map(record => record.tweetId));
+			
+			// Put the notes back in the X bookmark folder they were imported from
+			for (const bookmark of bookmarks) {
+				const record = records.find(deletedRecord => deletedRecord.tweetId === bookmark.id);
+				bookmark.folder = record?.folder || null;
+			}
+			
+			// Tweets X didn't return were deleted or made private; don't look them up on every sync
+			const returnedIds = new Set(bookmarks.map(bookmark => bookmark.id));
+			const unavailableIds = records.map(record => record.tweetId).filter(id => !returnedIds.has(id));
+			if (unavailableIds.length > 0) {
+				const count = await this.bookmarkStorage.markTweetsUnavailable(unavailableIds);
+				this.twitterService.log(`${count} deleted note(s) won't be re-imported because X no longer returns their tweets`, 'info');
+			}
+			return bookmarks;
+		} catch (error) {
+			this.twitterService.log(`Could not fetch bookmarks to re-import: ${(error as Error).message}`, 'error');
+			return [];
+		}
+	}
+
+	/**
+	 * Rebuild the import index from the bookmark notes in the target folder and show what was found
+	 */
+	async rebuildIndexFromVault() {
+		if (this.isSyncInProgress()) {
+			new Notice('A sync is in progress. Try rebuilding the index once it has finished.');
+			return;
+		}
+		
+		const notice = new Notice('Rebuilding bookmark index from vault...', 0);
+		try {
+			const rebuilder = new IndexRebuilder(this.app, this.settings, this.bookmarkStorage);
+			const report = await rebuilder.rebuild();
+			this.twitterService.log(`Rebuilt index from vault: ${report.bookmarksFound} bookmarks in ${report.filesScanned} notes, ${report.duplicates.length} duplicates, ${report.orphans.length} orphans`, 'info');
+			notice.hide();
+			new IndexRebuildReportModal(this.app, report).open();
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			this.twitterService.log(`Error rebuilding index from vault: ${errorMessage}`, 'error');
+			notice.setMessage(`Could not rebuild index: ${errorMessage}`);
+			setTimeout(() => notice.hide(), 5000);
+		}
+	}
+
+	/**
+	 * Export the bookmark database and sync cursor to a backup file in the vault
+	 */
+	async exportBackup() {
+		try {
+			const file = await this.createBackup();
+			new Notice(`Bookmark data backed up to ${file.path}`);
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			this.twitterService.log(`Error exporting backup: ${errorMessage}`, 'error');
+			new Notice(`Could not export backup: ${errorMessage}`);
+		}
+	}
+
+	private async createBackup(): Promise<TFile> {
+		const cursor = {
+			nextPaginationToken: this.settings.nextPaginationToken,
+			initialSyncComplete: this.settings.initialSyncComplete,
+			lastSyncPage: this.settings.lastSyncPage
+		};
+		const file = await new BookmarkBackupManager(this.app, this.bookmarkStorage).exportBackup(cursor, this.settings.lastSyncTimestamp);
+		this.twitterService.log(`Exported bookmark data backup to ${file.path}`, 'info');
+		return file;
+	}
+
+	/**
+	 * Let the user pick a backup file, then show its validation report before restoring it
+	 */
+	chooseBackupToRestore() {
+		const backupManager = new BookmarkBackupManager(this.app, this.bookmarkStorage);
+		new BackupFileSuggestModal(this.app, backupManager.getBackupCandidates(), async (file) => {
+			const report = await backupManager.validateBackup(file);
+			new BackupRestoreModal(this.app, file, report, (backup, mode) => this.restoreBackup(backupManager, backup, mode)).open();
+		}).open();
+	}
+
+	/**
+	 * Restore a validated backup, saving a backup of the current data first
+	 * @param mode 'merge' keeps what is already imported and adds the backup's bookmarks; 'replace' makes
+	 * the import state exactly the backup's, including its sync cursor
+	 */
+	private async restoreBackup(backupManager: BookmarkBackupManager, backup: BookmarkBackup, mode: 'merge' | 'replace') {
+		if (this.isSyncInProgress()) {
+			new Notice('A sync is in progress. Try restoring once it has finished.');
+			return;
+		}
+		
+		try {
+			const safetyBackup = await this.createBackup();
+			const result = await backupManager.restoreBackup(backup, mode);
+			
+			if (mode === 'replace' && backup.cursor) {
+				this.settings.nextPaginationToken = backup.cursor.nextPaginationToken;
+				this.settings.initialSyncComplete = backup.cursor.initialSyncComplete;
+				this.settings.lastSyncPage = backup.cursor.lastSyncPage;
+				this.settings.lastSyncTimestamp = backup.lastSyncTimestamp;
+				await this.saveSettings();
+			}
+			
+			this.twitterService.log(`Restored backup from ${backup.createdAt} (${mode}): ${JSON.stringify(result)}`, 'info');
+			let message = `Backup restored: ${result.added} entries added, ${result.replaced} replaced`;
+			message += mode === 'merge' ? `, ${result.kept} kept.` : `, ${result.removed} removed.`;
+			message += ` The previous data was saved to ${safetyBackup.path}.`;
+			new Notice(message, 10000);
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			this.twitterService.log(`Error restoring backup: ${errorMessage}`, 'error');
+			new Notice(`Could not restore backup: ${errorMessage}`);
+		}
+	}
+
+	/**
+	 * Remove bookmarks from X after they have been saved to the vault.
+	 * Failures are recorded in BookmarkStorage and retried together with the new IDs on later syncs.
+	 * @param storedIds IDs of bookmarks whose notes were saved in this sync
+	 */
+	private async removeImportedBookmarks(storedIds: string[]): Promise<void> {
+		const pendingIds = (await this.bookmarkStorage.getPendingRemovals()).map(removal => removal.tweetId);
+		const idsToRemove = Array.from(new Set([...pendingIds, ...storedIds]));
+		if (idsToRemove.length === 0) return;
+		
+		this.twitterService.log(`Removing ${idsToRemove.length} imported bookmark(s) from X (${pendingIds.length} retried)`, 'info');
+		
+		let removedCount = 0;
+		for (let i = 0; i < idsToRemove.length; i++) {
+			const tweetId = idsToRemove[i];
+			try {
+				await this.twitterService.removeBookmark(tweetId);
+				await this.bookmarkStorage.clearRemovalFailure(tweetId);
+				removedCount++;
+			} catch (error) {
+				const errorMessage = (error as Error).message;
+				await this.bookmarkStorage.recordRemovalFailure(tweetId, errorMessage);
+				
+				// Once rate limited, record the rest as pending without calling X again
+				if (error instanceof RateLimitBudgetError) {
+					for (const remainingId of idsToRemove.slice(i + 1)) {
+						await this.bookmarkStorage.recordRemovalFailure(remainingId, errorMessage);
+					}
+					break;
+				}
+			}
+		}
+		
+		this.twitterService.log(`Removed ${removedCount} of ${idsToRemove.length} bookmark(s) from X`, 'info');
+	}
+
 	validateSettings(showNotices: boolean = true): boolean {
 		// Validate OAuth 2.0 credentials
 		if (!this.settings.clientId) {
@@ -557,18 +910,42 @@ export default class BookmarkBridgePlugin extends Plugin {
 			clearTimeout(this.syncTimer);
 			this.syncTimer = null;
 		}
+		
+		// Don't leave other devices waiting for the lease to expire
+		this.syncLease.release().catch((error) => {
+			console.error('[Bookmark Bridge] Failed to release sync lease on unload:', error);
+		});
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
-		
-		// Make sure singleFileName is set if missing (for migration from older versions)
-		if (!this.settings.singleFileName) {
-			this.settings.singleFileName = DEFAULT_SETTINGS.singleFileName;
+		// Migrate settings saved by older versions and replace invalid values with their defaults
+		const loaded = parseSettings(await this.loadData());
+		this.settings = loaded.settings;
+		this.settingsLoadResult = loaded;
+		if (loaded.changed) {
 			await this.saveSettings();
 		}
 	}
 
+	/**
+	 * Log the migrations applied while loading settings and tell the user about invalid values
+	 */
+	private reportSettingsLoadResult() {
+		if (!this.settingsLoadResult) return;
+		const { migrations, problems } = this.settingsLoadResult;
+		this.settingsLoadResult = null;
+		
+		for (const migration of migrations) {
+			this.twitterService.log(`Migrated settings: ${migration}`, 'info');
+		}
+		for (const problem of problems) {
+			this.twitterService.log(`Invalid setting: ${problem}`, 'error');
+		}
+		if (problems.length > 0) {
+			new Notice(`Bookmark Bridge found problems with its settings:\n${problems.join('\n')}`, 15000);
+		}
+	}
+
 	async saveSettings() {
 		await this.saveData(this.settings);
 	}
@@ -788,6 +1165,141 @@ export default class BookmarkBridgePlugin extends Plugin {
 	}
 }
 
+/**
+ * Shows the result of rebuilding the import index from the vault
+ */
+class IndexRebuildReportModal extends Modal {
+	private report: IndexRebuildReport;
+
+	constructor(app: App, report: IndexRebuildReport) {
+		super(app);
+		this.report = report;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl('h2', { text: 'Index Rebuilt' });
+		contentEl.createEl('p', { text: `Found ${this.report.bookmarksFound} bookmarks in ${this.report.filesScanned} notes.` });
+
+		contentEl.createEl('h3', { text: `Duplicates (${this.report.duplicates.length})` });
+		if (this.report.duplicates.length === 0) {
+			contentEl.createEl('p', { text: 'No bookmark was found in more than one place.' });
+		} else {
+			contentEl.createEl('p', { text: 'These bookmarks appear more than once. The index points to the first location listed.', cls: 'setting-item-description' });
+			const list = contentEl.createEl('ul');
+			for (const duplicate of this.report.duplicates) {
+				list.createEl('li', { text: `${duplicate.tweetId}: ${duplicate.filePaths.join(', ')}` });
+			}
+		}
+
+		contentEl.createEl('h3', { text: `Orphans (${this.report.orphans.length})` });
+		if (this.report.orphans.length === 0) {
+			contentEl.createEl('p', { text: 'Every bookmark in the index has a note.' });
+		} else {
+			contentEl.createEl('p', { text: 'These bookmarks were imported before but no note was found for them. They stay marked as imported, so they won\'t be imported again.', cls: 'setting-item-description' });
+			const list = contentEl.createEl('ul');
+			for (const orphan of this.report.orphans) {
+				list.createEl('li', { text: orphan.filePath ? `${orphan.tweetId} (was ${orphan.filePath})` : orphan.tweetId });
+			}
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+class BackupFileSuggestModal extends FuzzySuggestModal<TFile> {
+	private files: TFile[];
+	private onChoose: (file: TFile) => void;
+
+	constructor(app: App, files: TFile[], onChoose: (file: TFile) => void) {
+		super(app);
+		this.files = files;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Choose a Bookmark Bridge backup file to restore');
+	}
+
+	getItems(): TFile[] {
+		return this.files;
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile) {
+		this.onChoose(file);
+	}
+}
+
+class BackupRestoreModal extends Modal {
+	private file: TFile;
+	private report: BackupValidationReport;
+	private onRestore: (backup: BookmarkBackup, mode: 'merge' | 'replace') => Promise<void>;
+
+	constructor(app: App, file: TFile, report: BackupValidationReport, onRestore: (backup: BookmarkBackup, mode: 'merge' | 'replace') => Promise<void>) {
+		super(app);
+		this.file = file;
+		this.report = report;
+		this.onRestore = onRestore;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		const { backup, errors, warnings, counts } = this.report;
+		contentEl.createEl('h2', { text: 'Restore Backup' });
+		contentEl.createEl('p', { text: this.file.path, cls: 'setting-item-description' });
+
+		if (!backup) {
+			contentEl.createEl('h3', { text: 'This backup can\'t be restored' });
+			const list = contentEl.createEl('ul');
+			for (const error of errors) {
+				list.createEl('li', { text: error });
+			}
+			return;
+		}
+
+		const createdAt = backup.createdAt ? new Date(backup.createdAt).toLocaleString() : 'an unknown date';
+		contentEl.createEl('p', { text: `Backup from ${createdAt} with ${counts.processedBookmarks} imported bookmarks, ${counts.bookmarkRecords} note records, ${counts.bookmarkPayloads} cached bookmarks and ${counts.pendingRemovals} pending removals.` });
+
+		contentEl.createEl('h3', { text: `Warnings (${warnings.length})` });
+		if (warnings.length === 0) {
+			contentEl.createEl('p', { text: 'Everything in the backup is valid.' });
+		} else {
+			const list = contentEl.createEl('ul');
+			for (const warning of warnings) {
+				list.createEl('li', { text: warning });
+			}
+		}
+
+		contentEl.createEl('p', { text: 'Merge adds the backup\'s bookmarks and keeps everything imported since. Replace makes the import state and sync position exactly the backup\'s. Either way, the current data is backed up first.', cls: 'setting-item-description' });
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Merge')
+				.setCta()
+				.onClick(async () => {
+					this.close();
+					await this.onRestore(backup, 'merge');
+				}))
+			.addButton(button => button
+				.setButtonText('Replace')
+				.setWarning()
+				.onClick(async () => {
+					this.close();
+					await this.onRestore(backup, 'replace');
+				}))
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
 class BookmarkBridgeSettingTab extends PluginSettingTab {
 	plugin: BookmarkBridgePlugin;
 
@@ -909,9 +1421,132 @@ class BookmarkBridgeSettingTab extends PluginSettingTab {
 					}));
 		}
 
+		if (this.plugin.settings.storageMethod === 'separate') {
+			new Setting(containerEl)
+				.setName('File Name Template')
+				.setDesc('Name of each bookmark\'s note, without the .md extension. Uses the same variables and helpers as the note template, e.g. {{authorUsername}} - {{truncate text 40 ""}}. Characters that aren\'t allowed in file names are removed, and a number is added when two bookmarks get the same name.')
+				.addText((text) => text
+					.setPlaceholder(DEFAULT_SETTINGS.fileNameTemplate)
+					.setValue(this.plugin.settings.fileNameTemplate)
+					.onChange(async (value: string) => {
+						const template = value.trim() || DEFAULT_SETTINGS.fileNameTemplate;
+						showFileNameTemplateError(template);
+						this.plugin.settings.fileNameTemplate = template;
+						await this.plugin.saveSettings();
+					}));
+			
+			const fileNameTemplateErrorEl = containerEl.createEl('div', { cls: 'bookmark-bridge-template-error setting-item-description mod-warning' });
+			const showFileNameTemplateError = (template: string) => {
+				const error = validateTemplate(template);
+				fileNameTemplateErrorEl.setText(error ? error.message : '');
+			};
+			showFileNameTemplateError(this.plugin.settings.fileNameTemplate);
+			
+			new Setting(containerEl)
+				.setName('Maximum File Name Length')
+				.setDesc('Longer file names are shortened to this many characters.')
+				.addText((text) => text
+					.setPlaceholder(String(DEFAULT_SETTINGS.fileNameMaxLength))
+					.setValue(String(this.plugin.settings.fileNameMaxLength))
+					.onChange(async (value: string) => {
+						const maxLength = Number(value.trim());
+						if (value.trim() === '' || checkSettingValue('fileNameMaxLength', maxLength)) {
+							return;
+						}
+						this.plugin.settings.fileNameMaxLength = maxLength;
+						await this.plugin.saveSettings();
+					}));
+			
+			new Setting(containerEl)
+				.setName('Folder Routing Rules')
+				.setDesc('Save notes in folders inside the target folder by author, text or media. Rules are checked from top to bottom and the first one that matches is used; bookmarks that match no rule are saved as usual. Folders can use template variables, e.g. {{year}}/{{month}}.')
+				.addButton((button) => button
+					.setButtonText('Add Rule')
+					.onClick(async () => {
+						const rule: FolderRoutingRule = { type: 'author', value: '', folder: '' };
+						this.plugin.settings.folderRoutingRules = [...this.plugin.settings.folderRoutingRules, rule];
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+			
+			this.plugin.settings.folderRoutingRules.forEach((rule, index) => this.displayRoutingRule(containerEl, rule, index));
+			
+			let routingTestInput = '';
+			new Setting(containerEl)
+				.setName('Test Folder Routing')
+				.setDesc('Enter the ID or link of an imported bookmark to see which folder its note goes to. Leave it empty to test the five most recently imported bookmarks.')
+				.addText((text) => text
+					.setPlaceholder('e.g., https://x.com/jack/status/20')
+					.onChange((value: string) => {
+						routingTestInput = value;
+					}))
+				.addButton((button) => button
+					.setButtonText('Test')
+					.onClick(async () => {
+						const lines = await this.plugin.testFolderRouting(routingTestInput);
+						routingTestResultEl.empty();
+						lines.forEach(line => routingTestResultEl.createEl('div', { text: line }));
+					}));
+			const routingTestResultEl = containerEl.createEl('div', { cls: 'bookmark-bridge-routing-test setting-item-description' });
+		}
+
+		new Setting(containerEl)
+			.setName('Mirror X Bookmark Folders')
+			.setDesc('Read your X bookmark folders (paid X accounts only) and save each folder\'s bookmarks into a matching subfolder of the target folder. In single note mode, each folder gets its own note. Uses an extra X API request per folder on each sync and reads every folder in full once a day.')
+			.addToggle((toggle) => {
+				toggle.setValue(this.plugin.settings.syncBookmarkFolders);
+				toggle.onChange(async (value) => {
+					this.plugin.settings.syncBookmarkFolders = value;
+					await this.plugin.saveSettings();
+				});
+			});
+
 		// --- Template Settings ---
 		containerEl.createEl('h3', { text: 'Template Settings' });
 		// ... (template settings remain the same, ensure they are below this point)
+		new Setting(containerEl)
+			.setName('Frontmatter Properties')
+			.setDesc('Properties added to the frontmatter of each note. Custom templates include them with {{frontmatter}}.');
+		
+		for (const name of Object.keys(FRONTMATTER_PROPERTIES) as FrontmatterPropertyName[]) {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(FRONTMATTER_PROPERTIES[name].description)
+				.addToggle((toggle: ToggleComponent) => {
+					toggle.setValue(name === 'tweet_id' || this.plugin.settings.frontmatterProperties.includes(name));
+					toggle.setDisabled(name === 'tweet_id');
+					toggle.onChange(async (value: boolean) => {
+						const selected = this.plugin.settings.frontmatterProperties.filter(property => property !== name);
+						// Keep the order of FRONTMATTER_PROPERTIES, so properties are always written in the same order
+						this.plugin.settings.frontmatterProperties = (Object.keys(FRONTMATTER_PROPERTIES) as FrontmatterPropertyName[])
+							.filter(property => property === name ? value : selected.includes(property));
+						await this.plugin.saveSettings();
+					});
+					return toggle;
+				});
+		}
+		
+		new Setting(containerEl)
+			.setName('Static Properties')
+			.setDesc('Properties added to every new note, one "name: value" per line, e.g. status: unread. Use true or false for checkboxes and [a, b] for lists. Refreshing a note never changes these properties.')
+			.addTextArea((textArea: TextAreaComponent) => {
+				textArea.setPlaceholder('status: unread');
+				textArea.setValue(this.plugin.settings.staticFrontmatter);
+				textArea.inputEl.rows = 4;
+				textArea.onChange(async (value: string) => {
+					this.plugin.settings.staticFrontmatter = value;
+					await this.plugin.saveSettings();
+					showStaticFrontmatterErrors(value);
+				});
+				return textArea;
+			});
+		
+		const staticFrontmatterErrorEl = containerEl.createEl('div', { cls: 'bookmark-bridge-template-error setting-item-description mod-warning' });
+		const showStaticFrontmatterErrors = (text: string) => {
+			staticFrontmatterErrorEl.setText(parseStaticProperties(text).errors.join('; '));
+		};
+		showStaticFrontmatterErrors(this.plugin.settings.staticFrontmatter);
+		
 		new Setting(containerEl)
 			.setName('Use Custom Templates')
 			.setDesc('Enable custom templates for formatting bookmarks')
@@ -938,7 +1573,7 @@ class BookmarkBridgeSettingTab extends PluginSettingTab {
 			
 			new Setting(containerEl)
 				.setName('Bookmark Note Template')
-				.setDesc('Define the template for how bookmarks are formatted as notes.')
+				.setDesc('Define the template for how bookmarks are formatted as notes. Used for bookmarks that match none of the conditional templates below.')
 				.addTextArea((textArea: TextAreaComponent) => {
 					textArea.setValue(this.plugin.settings.template);
 					textArea.inputEl.rows = 10;
@@ -946,10 +1581,19 @@ class BookmarkBridgeSettingTab extends PluginSettingTab {
 					textArea.onChange(async (value: string) => {
 						this.plugin.settings.template = value;
 						await this.plugin.saveSettings();
+						showTemplateError(value);
 					});
 					return textArea;
 				});
 			
+			// Point out syntax errors while the template is edited
+			const templateErrorEl = containerEl.createEl('div', { cls: 'bookmark-bridge-template-error setting-item-description mod-warning' });
+			const showTemplateError = (template: string) => {
+				const error = validateTemplate(template);
+				templateErrorEl.setText(error ? error.message : '');
+			};
+			showTemplateError(this.plugin.settings.template);
+			
 			new Setting(containerEl)
 				.setName('Reset Template')
 				.setDesc('Reset template to the default value.')
@@ -963,6 +1607,25 @@ class BookmarkBridgeSettingTab extends PluginSettingTab {
 					});
 					return button;
 				});
+			
+			new Setting(containerEl)
+				.setName('Conditional Templates')
+				.setDesc('Templates for bookmarks that meet a condition, such as threads or tweets with media. They are checked from top to bottom and the first one that matches is used; other bookmarks use the template above.')
+				.addButton((button) => button
+					.setButtonText('Add Template')
+					.onClick(async () => {
+						const conditionalTemplate: ConditionalTemplate = {
+							name: `Template ${this.plugin.settings.conditionalTemplates.length + 1}`,
+							type: 'hasMedia',
+							value: '',
+							template: this.plugin.settings.template
+						};
+						this.plugin.settings.conditionalTemplates = [...this.plugin.settings.conditionalTemplates, conditionalTemplate];
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+			
+			this.plugin.settings.conditionalTemplates.forEach((conditionalTemplate, index) => this.displayConditionalTemplate(containerEl, conditionalTemplate, index));
 		}
 
 		// --- Sync Settings ---
@@ -990,6 +1653,57 @@ class BookmarkBridgeSettingTab extends PluginSettingTab {
 				});
 			});
 		
+		new Setting(containerEl)
+			.setName('Unroll Threads')
+			.setDesc('Include the author\'s own replies when a bookmarked tweet is part of a thread. Uses one extra X API search request per thread, and only threads from the last 7 days can be found.')
+			.addToggle((toggle) => {
+				toggle.setValue(this.plugin.settings.unrollThreads);
+				toggle.onChange(async (value) => {
+					this.plugin.settings.unrollThreads = value;
+					await this.plugin.saveSettings();
+				});
+			});
+		
+		new Setting(containerEl)
+			.setName('Remove From X After Import')
+			.setDesc('Treat X bookmarks as an inbox: once a bookmark is saved in your vault, remove it from your X bookmarks. Bookmarks that fail to be removed are retried on the next sync. Turning this on asks you to re-authenticate, so X grants the plugin permission to change your bookmarks.')
+			.addToggle((toggle) => {
+				toggle.setValue(this.plugin.settings.removeFromXAfterImport);
+				toggle.onChange(async (value) => {
+					this.plugin.settings.removeFromXAfterImport = value;
+					await this.plugin.saveSettings();
+					
+					// Write access is only requested while removal is enabled
+					const twitterService = this.plugin.twitterService;
+					if (value && twitterService.hasOAuth2Credentials() && !twitterService.hasGrantedScope('bookmark.write')) {
+						new Notice('Removing bookmarks needs permission to change your X bookmarks. Click Re-authenticate under Account Actions to grant it.', 10000);
+					}
+				});
+			});
+		
+		new Setting(containerEl)
+			.setName('Update Existing Notes')
+			.setDesc('When a sync fetches bookmarks that were already imported, re-render them with the current template. Only the parts of a note the plugin generated are replaced: the content between the bookmark-bridge comment markers and the frontmatter properties from the template. Anything you wrote elsewhere in the note is kept.')
+			.addToggle((toggle) => {
+				toggle.setValue(this.plugin.settings.refreshExistingNotes);
+				toggle.onChange(async (value) => {
+					this.plugin.settings.refreshExistingNotes = value;
+					await this.plugin.saveSettings();
+				});
+			});
+		
+		new Setting(containerEl)
+			.setName('Deleted Bookmark Notes')
+			.setDesc('What to do when you delete a bookmark note from your vault. Re-importing looks the tweet up again on the next sync; tweets that were deleted or made private are skipped from then on.')
+			.addDropdown((dropdown) => dropdown
+				.addOption('tombstone', 'Keep deleted, never import again')
+				.addOption('reimport', 'Import again on the next sync')
+				.setValue(this.plugin.settings.deletedNoteBehavior)
+				.onChange(async (value: 'reimport' | 'tombstone') => {
+					this.plugin.settings.deletedNoteBehavior = value;
+					await this.plugin.saveSettings();
+				}));
+		
 		new Setting(containerEl)
 			.setName('Manual Sync')
 			.setDesc('Manually trigger a sync of your X bookmarks to Obsidian.')
@@ -1001,9 +1715,14 @@ class BookmarkBridgeSettingTab extends PluginSettingTab {
 
 		containerEl.createEl('div', { text: `Last sync: ${this.formatLastSync()}`, cls: 'bookmark-bridge-last-sync setting-item-description' });
 		containerEl.createEl('div', { text: `Sync status: ${this.formatSyncStatus()}`, cls: 'bookmark-bridge-sync-status setting-item-description' });
+		containerEl.createEl('div', { text: `Rate limit: ${this.formatRateLimitStatus()}`, cls: 'bookmark-bridge-sync-status setting-item-description' });
+		const syncLockEl = containerEl.createEl('div', { text: 'Sync lock: checking...', cls: 'bookmark-bridge-sync-status setting-item-description' });
+		this.plugin.syncLease.getHolder().then((holder) => {
+			syncLockEl.setText(`Sync lock: ${this.formatSyncLease(holder)}`);
+		});
 		
 		containerEl.createEl('div', {
-			text: 'Note: X API limits bookmarks requests to 1 per 15 minutes for free Developer accounts. Pagination is handled automatically over multiple sync sessions if needed.',
+			text: 'Note: X API limits bookmarks requests per 15 minute window based on your Developer account tier (1 request on the free tier). Each sync fetches as many pages as the remaining limit allows, and pagination continues automatically after the window resets.',
 			cls: 'setting-item-description'
 		});
 
@@ -1082,13 +1801,174 @@ class BookmarkBridgeSettingTab extends PluginSettingTab {
 		});
 	}
 
+	/**
+	 * Show one folder routing rule with controls to edit, reorder and delete it
+	 */
+	private displayRoutingRule(containerEl: HTMLElement, rule: FolderRoutingRule, index: number) {
+		const ruleCount = this.plugin.settings.folderRoutingRules.length;
+		const setting = new Setting(containerEl)
+			.setName(`Rule ${index + 1}`)
+			.addDropdown((dropdown: DropdownComponent) => {
+				for (const type of Object.keys(CONDITION_TYPES) as BookmarkConditionType[]) {
+					dropdown.addOption(type, CONDITION_TYPES[type].label);
+				}
+				dropdown.setValue(rule.type);
+				dropdown.onChange(async (value: string) => {
+					rule.type = value as BookmarkConditionType;
+					await this.plugin.saveSettings();
+					this.display(); // Refresh to show/hide the value field
+				});
+			});
+		
+		const valuePlaceholder = CONDITION_TYPES[rule.type].valuePlaceholder;
+		if (valuePlaceholder !== null) {
+			setting.addText((text) => text
+				.setPlaceholder(valuePlaceholder)
+				.setValue(rule.value)
+				.onChange(async (value: string) => {
+					rule.value = value;
+					await this.plugin.saveSettings();
+				}));
+		}
+		
+		setting
+			.addText((text) => text
+				.setPlaceholder('Folder, e.g., Research/People')
+				.setValue(rule.folder)
+				.onChange(async (value: string) => {
+					rule.folder = value.trim();
+					await this.plugin.saveSettings();
+				}))
+			.addExtraButton((button) => button
+				.setIcon('arrow-up')
+				.setTooltip('Move up')
+				.setDisabled(index === 0)
+				.onClick(() => this.moveRoutingRule(index, index - 1)))
+			.addExtraButton((button) => button
+				.setIcon('arrow-down')
+				.setTooltip('Move down')
+				.setDisabled(index === ruleCount - 1)
+				.onClick(() => this.moveRoutingRule(index, index + 1)))
+			.addExtraButton((button) => button
+				.setIcon('trash')
+				.setTooltip('Delete rule')
+				.onClick(async () => {
+					this.plugin.settings.folderRoutingRules = this.plugin.settings.folderRoutingRules.filter((_, i) => i !== index);
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+	}
+
+	private async moveRoutingRule(from: number, to: number) {
+		const rules = [...this.plugin.settings.folderRoutingRules];
+		if (to < 0 || to >= rules.length) {
+			return;
+		}
+		[rules[from], rules[to]] = [rules[to], rules[from]];
+		this.plugin.settings.folderRoutingRules = rules;
+		await this.plugin.saveSettings();
+		this.display();
+	}
+
+	/**
+	 * Show one conditional template with controls to edit, reorder and delete it
+	 */
+	private displayConditionalTemplate(containerEl: HTMLElement, conditionalTemplate: ConditionalTemplate, index: number) {
+		const templateCount = this.plugin.settings.conditionalTemplates.length;
+		const setting = new Setting(containerEl)
+			.addText((text) => text
+				.setPlaceholder('Name')
+				.setValue(conditionalTemplate.name)
+				.onChange(async (value: string) => {
+					conditionalTemplate.name = value;
+					await this.plugin.saveSettings();
+				}))
+			.addDropdown((dropdown: DropdownComponent) => {
+				for (const type of Object.keys(CONDITION_TYPES) as BookmarkConditionType[]) {
+					dropdown.addOption(type, CONDITION_TYPES[type].label);
+				}
+				dropdown.setValue(conditionalTemplate.type);
+				dropdown.onChange(async (value: string) => {
+					conditionalTemplate.type = value as BookmarkConditionType;
+					await this.plugin.saveSettings();
+					this.display(); // Refresh to show/hide the value field
+				});
+			});
+		
+		const valuePlaceholder = CONDITION_TYPES[conditionalTemplate.type].valuePlaceholder;
+		if (valuePlaceholder !== null) {
+			setting.addText((text) => text
+				.setPlaceholder(valuePlaceholder)
+				.setValue(conditionalTemplate.value)
+				.onChange(async (value: string) => {
+					conditionalTemplate.value = value;
+					await this.plugin.saveSettings();
+				}));
+		}
+		
+		setting
+			.addExtraButton((button) => button
+				.setIcon('arrow-up')
+				.setTooltip('Move up')
+				.setDisabled(index === 0)
+				.onClick(() => this.moveConditionalTemplate(index, index - 1)))
+			.addExtraButton((button) => button
+				.setIcon('arrow-down')
+				.setTooltip('Move down')
+				.setDisabled(index === templateCount - 1)
+				.onClick(() => this.moveConditionalTemplate(index, index + 1)))
+			.addExtraButton((button) => button
+				.setIcon('trash')
+				.setTooltip('Delete template')
+				.onClick(async () => {
+					this.plugin.settings.conditionalTemplates = this.plugin.settings.conditionalTemplates.filter((_, i) => i !== index);
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+		
+		new Setting(containerEl)
+			.addTextArea((textArea: TextAreaComponent) => {
+				textArea.setValue(conditionalTemplate.template);
+				textArea.inputEl.rows = 8;
+				textArea.inputEl.cols = 60;
+				textArea.onChange(async (value: string) => {
+					conditionalTemplate.template = value;
+					await this.plugin.saveSettings();
+					showTemplateError(value);
+				});
+				return textArea;
+			});
+		
+		const templateErrorEl = containerEl.createEl('div', { cls: 'bookmark-bridge-template-error setting-item-description mod-warning' });
+		const showTemplateError = (template: string) => {
+			const error = validateTemplate(template);
+			templateErrorEl.setText(error ? error.message : '');
+		};
+		showTemplateError(conditionalTemplate.template);
+	}
+
+	private async moveConditionalTemplate(from: number, to: number) {
+		const templates = [...this.plugin.settings.conditionalTemplates];
+		if (to < 0 || to >= templates.length) {
+			return;
+		}
+		[templates[from], templates[to]] = [templates[to], templates[from]];
+		this.plugin.settings.conditionalTemplates = templates;
+		await this.plugin.saveSettings();
+		this.display();
+	}
+
 	private renderAuthStatus(containerEl: HTMLElement) {
 		(containerEl as any).innerHTML = ''; // Clear previous content
 
 		// Display current connection status
 		const isConnected = this.plugin.twitterService.hasOAuth2Credentials();
+		const username = this.plugin.twitterService.getAuthenticatedUsername();
+		const accountText = username
+			? ` as @${username}${this.plugin.settings.userDisplayName ? ` (${this.plugin.settings.userDisplayName})` : ''}`
+			: '';
 		const statusText = isConnected 
-			? '✓ Connected to X API' 
+			? `✓ Connected to X API${accountText}` 
 			: '✗ Not connected to X API. Please provide your Client ID and click Authenticate.';
 		const statusClass = isConnected 
 			? 'oauth2-status connected' 
@@ -1173,8 +2053,27 @@ class BookmarkBridgeSettingTab extends PluginSettingTab {
 		return new Date(timestamp).toLocaleString();
 	}
 
+	formatRateLimitStatus(): string {
+		const { rateLimitLimit, rateLimitRemaining, rateLimitReset } = this.plugin.settings;
+		if (!rateLimitReset) {
+			return 'Unknown until the first sync';
+		}
+		if (Date.now() >= rateLimitReset) {
+			return `${rateLimitLimit} of ${rateLimitLimit} request(s) available`;
+		}
+		return `${rateLimitRemaining} of ${rateLimitLimit} request(s) left until ${new Date(rateLimitReset).toLocaleTimeString()}`;
+	}
+
+	formatSyncLease(holder: SyncLeaseHolder | null): string {
+		if (!holder) {
+			return 'Free';
+		}
+		const device = this.plugin.syncLease.isThisDevice(holder) ? 'this device' : `device ${holder.deviceId}`;
+		return `Held by ${device} since ${new Date(holder.acquiredAt).toLocaleTimeString()}, expires ${new Date(holder.expiresAt).toLocaleTimeString()} unless renewed`;
+	}
+
 	formatSyncStatus(): string {
-		if (this.plugin.settings.syncInProgress) {
+		if (this.plugin.isSyncInProgress()) {
 			return `Sync in progress`;
 		} else if (!this.plugin.settings.initialSyncComplete && this.plugin.settings.lastSyncPage > 0) {
 			return `Initial sync in progress: Page ${this.plugin.settings.lastSyncPage} completed`;
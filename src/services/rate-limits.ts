@@ -0,0 +1,84 @@
+/**
+ * X API endpoints the plugin calls. X limits each one separately, so each has its own budget.
+ */
+export type XEndpoint = 'me' | 'bookmarks' | 'bookmarkFolders' | 'removeBookmark' | 'tweetLookup' | 'search';
+
+const ENDPOINT_NAMES: Record<XEndpoint, string> = {
+    me: 'GET /2/users/me',
+    bookmarks: 'GET /2/users/:id/bookmarks',
+    bookmarkFolders: 'GET /2/users/:id/bookmarks/folders',
+    removeBookmark: 'DELETE /2/users/:id/bookmarks/:tweet_id',
+    tweetLookup: 'GET /2/tweets',
+    search: 'GET /2/tweets/search/recent'
+};
+
+/**
+ * What is known about an endpoint's current rate limit window
+ */
+export interface RateLimitWindow {
+    limit: number; // Requests allowed per window, 0 if unknown
+    remaining: number; // Requests left in the window
+    reset: number; // When the window resets, in ms, 0 if unknown
+}
+
+/**
+ * The x-rate-limit-* headers as twitter-api-v2 parses them, with reset in seconds since the epoch
+ */
+export interface RateLimitHeaders {
+    limit: number;
+    remaining: number;
+    reset: number;
+}
+
+/**
+ * Thrown instead of making a request that X would reject because the endpoint's budget is used up
+ */
+export class RateLimitBudgetError extends Error {
+    endpoint: XEndpoint;
+    resetAt: number;
+
+    constructor(endpoint: XEndpoint, resetAt: number) {
+        super(`X API rate limit reached for ${ENDPOINT_NAMES[endpoint]}. Requests are allowed again at ${new Date(resetAt).toLocaleTimeString()}.`);
+        this.name = 'RateLimitBudgetError';
+        this.endpoint = endpoint;
+        this.resetAt = resetAt;
+    }
+}
+
+/**
+ * Get the name of an endpoint for log messages
+ */
+export function getEndpointName(endpoint: XEndpoint): string {
+    return ENDPOINT_NAMES[endpoint];
+}
+
+/**
+ * Get how many requests can be made in a window
+ * Before X has reported a limit, one request is allowed so its response can report it.
+ */
+export function getRemainingRequests(window: RateLimitWindow, now: number): number {
+    if (window.reset > now) {
+        return window.remaining;
+    }
+    // The window has reset, so the full limit is available again
+    return window.limit > 0 ? window.limit : 1;
+}
+
+/**
+ * Count a request against a window
+ * @param fallbackDuration Length of the window to assume when X hasn't reported when it resets
+ * @returns The updated window
+ */
+export function takeRequest(window: RateLimitWindow, now: number, fallbackDuration: number): RateLimitWindow {
+    const current = window.reset > now
+        ? window
+        : { limit: window.limit, remaining: getRemainingRequests(window, now), reset: now + fallbackDuration };
+    return { ...current, remaining: Math.max(0, current.remaining - 1) };
+}
+
+/**
+ * Get the window X reported in a response's headers
+ */
+export function getWindowFromHeaders(headers: RateLimitHeaders): RateLimitWindow {
+    return { limit: headers.limit, remaining: headers.remaining, reset: headers.reset * 1000 };
+}
\ No newline at end of file
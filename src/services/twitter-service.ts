@@ -1,72 +1,184 @@
-import { TwitterApi } from 'twitter-api-v2';
+import { TTweetv2Expansion, TTweetv2MediaField, TTweetv2TweetField, TTweetv2UserField, TweetV2LookupResult, TwitterApi, UserV2Result } from 'twitter-api-v2';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as https from 'https';
 import * as url from 'url';
 import * as http from 'http';
-
-interface BookmarkBridgeSettings {
-    // OAuth 2.0 credentials
-    clientId: string;
-    clientSecret: string;
-    oauth2AccessToken: string;
-    oauth2RefreshToken: string;
-    codeVerifier: string;
-    
-    // Storage settings
-    storageMethod: 'separate' | 'single'; // Store bookmarks as separate files or in a single file
-    targetFolder: string;
-    singleFileName: string; // Filename for single file storage
-    
-    // Sync state
-    lastSyncTimestamp: number;
-    logFile: string;
-    
-    // Template settings
-    template: string; // Template for all bookmark formats
-    useCustomTemplate: boolean; // Whether to use custom templates
-    
-    // Pagination tracking
-    nextPaginationToken: string; // Token for the next page of bookmarks
-    initialSyncComplete: boolean; // Whether we've completed the initial full sync
-    lastSyncPage: number; // Last page of bookmarks we've synced
-    lastSyncTime: number; // Timestamp of the last sync attempt (for rate limit tracking)
-    
-    // Debug settings
-    bypassRateLimit: boolean; // DEBUG ONLY: Bypass the built-in rate limit check
-}
+import { BookmarkBridgeSettings } from '../settings';
+import { getEndpointName, getRemainingRequests, getWindowFromHeaders, RateLimitBudgetError, RateLimitHeaders, RateLimitWindow, takeRequest, XEndpoint } from './rate-limits';
 
 interface TwitterUser {
     id: string;
     name: string;
     username: string;
+    description?: string;
+    verified?: boolean;
+    profile_image_url?: string;
 }
 
 interface TwitterMedia {
     media_key: string;
+    type?: string;
     url?: string;
     preview_image_url?: string;
 }
 
+interface TwitterUrlEntity {
+    url: string; // The t.co short link as it appears in the text
+    expanded_url?: string;
+    unwound_url?: string;
+    display_url?: string;
+    title?: string;
+    description?: string;
+    media_key?: string;
+}
+
+/**
+ * A link shared in a tweet, with the page metadata X resolved for it
+ */
+export interface TwitterLink {
+    url: string;
+    displayUrl: string;
+    title: string;
+    description: string;
+}
+
+/**
+ * Public engagement counts for a tweet
+ */
+export interface TweetMetrics {
+    retweetCount: number;
+    replyCount: number;
+    likeCount: number;
+    quoteCount: number;
+}
+
+/**
+ * A tweet from the bookmarked author's own thread
+ */
+export interface TwitterThreadTweet {
+    id: string;
+    text: string;
+    createdAt: Date;
+    mediaUrls: string[];
+    tweetUrl: string;
+}
+
+/**
+ * A tweet referenced by a bookmark, such as the tweet it quotes or replies to
+ */
+export interface TwitterReferencedTweet {
+    id: string;
+    text: string;
+    createdAt: Date;
+    authorId: string;
+    authorUsername: string;
+    authorName: string;
+    mediaUrls: string[];
+    tweetUrl: string;
+}
+
+/**
+ * An X Article attached to a tweet
+ */
+export interface TwitterArticle {
+    title: string;
+    previewText: string;
+}
+
 export interface TwitterBookmark {
     id: string;
+    conversationId: string;
     text: string;
     createdAt: Date;
+    lang: string;
+    source: string;
     authorId: string;
     authorUsername: string;
     authorName: string;
+    authorDescription: string;
+    authorVerified: boolean;
+    authorProfileImageUrl: string;
     mediaUrls: string[];
+    hashtags: string[];
+    links: TwitterLink[]; // Non-media links shared in the tweet
+    metrics: TweetMetrics | null;
+    thread: TwitterThreadTweet[]; // The author's self-replies in the same conversation, oldest first
+    quotedTweet: TwitterReferencedTweet | null; // The tweet this bookmark quotes
+    inReplyTo: TwitterReferencedTweet | null; // The tweet this bookmark replies to
+    article: TwitterArticle | null; // The X Article published with this tweet
+    folder: string | null; // Name of the X bookmark folder this bookmark is filed in
     tweetUrl: string;
 }
 
+/**
+ * Expansions and fields requested for bookmarked tweets, shared by the bookmarks and tweet lookup calls
+ */
+const TWEET_LOOKUP_PARAMS = {
+    expansions: [
+        'author_id',
+        'attachments.media_keys',
+        'referenced_tweets.id',
+        'referenced_tweets.id.author_id',
+        // Supported by X but missing from the library's expansion type
+        'referenced_tweets.id.attachments.media_keys' as TTweetv2Expansion
+    ] as TTweetv2Expansion[],
+    'user.fields': ['name', 'username', 'description', 'verified', 'profile_image_url'] as TTweetv2UserField[],
+    'media.fields': ['url', 'preview_image_url', 'type'] as TTweetv2MediaField[],
+    'tweet.fields': [
+        'created_at',
+        'lang',
+        'source',
+        'public_metrics',
+        'entities',
+        'conversation_id',
+        'referenced_tweets',
+        'author_id',
+        'attachments',
+        'note_tweet',
+        // Supported by X but missing from the library's tweet field type
+        'article' as TTweetv2TweetField
+    ] as TTweetv2TweetField[]
+};
+
+/**
+ * Pagination state to save once a page of bookmarks has been processed
+ */
+export interface SyncCursor {
+    nextPaginationToken: string;
+    initialSyncComplete: boolean;
+    lastSyncPage: number;
+}
+
+/**
+ * One fetched page of bookmarks and the pagination state to save after it has been processed
+ */
+export interface BookmarkPage {
+    bookmarks: TwitterBookmark[];
+    cursor: SyncCursor;
+}
+
+/**
+ * Bookmark folder membership kept between syncs, so each sync only fetches what changed
+ */
+interface FolderMapCache {
+    userId: string;
+    folders: Map<string, string>; // Tweet ID to folder name
+    builtAt: number; // When the map was last rebuilt from every page of every folder
+}
+
 export class TwitterService {
     private settings: BookmarkBridgeSettings;
     private client: TwitterApi | null = null;
     private logFilePath: string | null = null;
     private saveSettingsCallback: () => Promise<void>; // Callback to save settings
     private lastApiCallTime: number = 0;
-    private apiRateLimitWindow: number = 15 * 60 * 1000; // 15 minutes in milliseconds
+    private apiRateLimitWindow: number = 15 * 60 * 1000; // Fallback window until X reports rate limit headers
+    private maxPagesPerSync: number = 50; // Upper bound on bookmark pages fetched in one sync session
     private apiCallsInProgress: boolean = false;
+    private rateLimitWindows = new Map<XEndpoint, RateLimitWindow>(); // Every endpoint but bookmarks, whose window is saved in settings
+    private folderMapCache: FolderMapCache | null = null;
+    private folderMapMaxAge: number = 24 * 60 * 60 * 1000; // Rebuild the folder map daily to drop bookmarks moved out of folders
 
     constructor(settings: BookmarkBridgeSettings, saveSettingsCallback: () => Promise<void>) {
         this.settings = settings;
@@ -262,7 +374,12 @@ export class TwitterService {
         authUrl.searchParams.append('client_id', this.settings.clientId);
         authUrl.searchParams.append('redirect_uri', callbackUrl);
         // Now that basic auth works, restore the full scopes needed for bookmarks
-        authUrl.searchParams.append('scope', 'bookmark.read tweet.read users.read offline.access'); 
+        // bookmark.write is only requested when bookmarks are removed from X after import
+        const scopes = ['bookmark.read', 'tweet.read', 'users.read', 'offline.access'];
+        if (this.settings.removeFromXAfterImport) {
+            scopes.push('bookmark.write');
+        }
+        authUrl.searchParams.append('scope', scopes.join(' '));
         authUrl.searchParams.append('state', state);
         authUrl.searchParams.append('code_challenge', codeChallenge);
         authUrl.searchParams.append('code_challenge_method', 'S256');
@@ -535,6 +652,7 @@ export class TwitterService {
                     // Store the tokens
                     this.settings.oauth2AccessToken = data.access_token;
                     this.settings.oauth2RefreshToken = data.refresh_token || '';
+                    this.settings.oauth2Scope = data.scope || '';
                     
                     // Clear the code_verifier as it's no longer needed
                     this.settings.codeVerifier = '';
@@ -545,6 +663,15 @@ export class TwitterService {
                     // Initialize client with the new token
                     this.initializeClient();
                     
+                    // The new token may belong to a different account, so look the account up again
+                    this.clearAuthenticatedUser();
+                    try {
+                        await this.getAuthenticatedUserId();
+                    } catch (userError) {
+                        // Not fatal: the account is looked up again on the next sync
+                        this.log(`Could not load the authenticated account after token exchange: ${userError}`, 'error');
+                    }
+                    
                     return true;
                 } catch (parseError) {
                     this.log(`Error parsing token response: ${parseError}`, 'error');
@@ -666,6 +793,9 @@ export class TwitterService {
                     if (data.refresh_token) {
                         this.settings.oauth2RefreshToken = data.refresh_token;
                     }
+                    if (data.scope) {
+                        this.settings.oauth2Scope = data.scope;
+                    }
                     
                     // Save settings
                     await this.saveSettingsCallback();
@@ -742,7 +872,9 @@ export class TwitterService {
             // Always clear local tokens after attempting revocation
             this.settings.oauth2AccessToken = '';
             this.settings.oauth2RefreshToken = '';
+            this.settings.oauth2Scope = '';
             this.settings.codeVerifier = ''; // Clear any leftover verifier
+            this.clearAuthenticatedUser();
             await this.saveSettingsCallback();
             this.client = null; // Clear the initialized client
             this.log('Local tokens cleared after revocation attempt.', 'info');
@@ -757,20 +889,109 @@ export class TwitterService {
         return !!this.settings.oauth2AccessToken;
     }
 
+    /**
+     * Check if X granted the access token a scope
+     * @returns False if it wasn't granted, or if the token was saved before granted scopes were recorded
+     */
+    public hasGrantedScope(scope: string): boolean {
+        return this.settings.oauth2Scope.split(' ').includes(scope);
+    }
+
+    /**
+     * Get the handle of the connected X account, if it has been looked up
+     */
+    public getAuthenticatedUsername(): string | null {
+        return this.settings.username || null;
+    }
+
+    /**
+     * Get the authenticated user's ID, calling /2/users/me only if it isn't cached yet
+     */
+    private async getAuthenticatedUserId(): Promise<string> {
+        if (this.settings.userId) {
+            return this.settings.userId;
+        }
+        
+        if (!this.client) {
+            this.initializeClient();
+            if (!this.client) {
+                throw new Error('Twitter client not initialized. Check your API credentials or authorize with X.');
+            }
+        }
+        
+        this.log('API CALL: GET /2/users/me (to get user ID)', 'info');
+        
+        try {
+            const currentUser = await this.requestAuthenticatedUser();
+            this.log(`API RESPONSE: User ID ${currentUser.id} retrieved successfully`, 'info');
+            await this.storeAuthenticatedUser(currentUser);
+            return currentUser.id;
+        } catch (userError: any) {
+            this.log(`Error getting current user: ${userError}`, 'error');
+            
+            if (this.isRateLimitError(userError)) {
+                this.log(`RATE LIMIT REACHED on GET /2/users/me call`, 'error');
+                // Get reset time if available
+                const resetTimeRaw = userError.rateLimit?.reset;
+                let waitTimeMsg = '15 minutes';
+                if (resetTimeRaw) {
+                    const resetTime = new Date(resetTimeRaw * 1000);
+                    const waitMinutes = Math.ceil((resetTime.getTime() - Date.now()) / (1000 * 60));
+                    waitTimeMsg = `${waitMinutes} minutes (until ${resetTime.toISOString()})`;
+                }
+                
+                throw new Error(`X API rate limit exceeded on user info request. Please wait ${waitTimeMsg} before trying again.`);
+            }
+            
+            throw userError; // re-throw if not a rate limit error
+        }
+    }
+
+    /**
+     * Request the authenticated account from /2/users/me, counting the request against its budget
+     * @throws RateLimitBudgetError if the budget is used up
+     */
+    private async requestAuthenticatedUser(): Promise<UserV2Result['data']> {
+        if (!this.client) {
+            throw new Error('Twitter client not initialized. Check your API credentials or authorize with X.');
+        }
+        
+        this.takeRequest('me');
+        try {
+            const response = await this.client.v2.get<UserV2Result>('users/me', undefined, { fullResponse: true });
+            await this.recordRateLimit('me', response.rateLimit);
+            return response.data.data;
+        } catch (userError: any) {
+            await this.recordRateLimit('me', userError.rateLimit);
+            throw userError;
+        }
+    }
+
+    /**
+     * Cache the authenticated account in settings
+     */
+    private async storeAuthenticatedUser(user: { id: string; username: string; name: string }): Promise<void> {
+        this.settings.userId = user.id;
+        this.settings.username = user.username;
+        this.settings.userDisplayName = user.name;
+        await this.saveSettingsCallback();
+    }
+
+    /**
+     * Forget the cached account so it is looked up again on the next request
+     */
+    private clearAuthenticatedUser(): void {
+        this.settings.userId = '';
+        this.settings.username = '';
+        this.settings.userDisplayName = '';
+    }
+
     /**
      * Test the connection to Twitter API
      * This counts against the rate limit, so use sparingly
      */
     public async testConnection(): Promise<boolean> {
         try {
-            // First check if we're rate limited before making the call
-            if (this.isRateLimited()) {
-                const timeElapsed = Date.now() - Math.max(this.lastApiCallTime, this.settings.lastSyncTime);
-                const timeToWait = Math.ceil((this.apiRateLimitWindow - timeElapsed) / 1000 / 60);
-                this.log(`TEST CONNECTION: Cannot proceed - still in rate limit window. Please wait ${timeToWait} more minutes.`, 'error');
-                return false;
-            }
-            
             if (!this.client) {
                 this.log('No Twitter client available, initializing...', 'info');
                 this.initializeClient();
@@ -787,16 +1008,16 @@ export class TwitterService {
             await this.updateRateLimitTimestamp();
             
             // Attempt to verify credentials by fetching user info
-            const currentUser = await this.client.v2.me();
+            const currentUser = await this.requestAuthenticatedUser();
             this.log(`Connection test response: ${JSON.stringify(currentUser)}`, 'info');
+            await this.storeAuthenticatedUser(currentUser);
             
-            return !!currentUser.data.id;
+            return !!currentUser.id;
         } catch (error) {
             this.log(`Twitter API connection test failed: ${error}`, 'error');
             
-            // Check if this is a rate limit error
-            const errorObj = error as any;
-            if (errorObj.code === 429 || (errorObj.errors && errorObj.errors[0]?.code === 88)) {
+            // Check if this is a rate limit error, or the budget for /2/users/me is used up
+            if (error instanceof RateLimitBudgetError || this.isRateLimitError(error)) {
                 this.log('TEST CONNECTION: Rate limit reached', 'error');
                 // Still update rate limit timestamp on error
                 await this.updateRateLimitTimestamp();
@@ -804,20 +1025,19 @@ export class TwitterService {
             }
             
             // If we have a refresh token, try refreshing the access token
-            if (this.settings.oauth2RefreshToken && !this.isRateLimited()) {
+            if (this.settings.oauth2RefreshToken) {
                 try {
                     this.log('Trying to refresh the access token...', 'info');
                     await this.refreshAccessToken();
                     
-                    // Try again with the new token but only if we're not rate limited
-                    if (this.client && !this.isRateLimited()) {
+                    // Try again with the new token, within the same budget
+                    if (this.client) {
                         this.log('API CALL: GET /2/users/me (retry after token refresh)', 'info');
                         // Update timestamp for this call too
                         await this.updateRateLimitTimestamp();
-                        const currentUser = await this.client.v2.me();
-                        return !!currentUser.data.id;
-                    } else {
-                        this.log('Not retrying after token refresh due to rate limit', 'info');
+                        const currentUser = await this.requestAuthenticatedUser();
+                        await this.storeAuthenticatedUser(currentUser);
+                        return !!currentUser.id;
                     }
                 } catch (refreshError) {
                     this.log(`Failed to refresh access token: ${refreshError}`, 'error');
@@ -840,40 +1060,131 @@ export class TwitterService {
         }
 
         const now = Date.now();
-        const lastCallTime = this.lastApiCallTime || 0;
-        const lastSyncTime = this.settings.lastSyncTime || 0;
-        const lastRelevantTime = Math.max(lastCallTime, lastSyncTime);
-        
-        // If no previous calls have been made, we're not rate limited
-        if (lastRelevantTime === 0) {
-            this.log('No previous API calls detected, not rate limited', 'debug');
-            return false;
-        }
-        
-        const timeElapsed = now - lastRelevantTime;
-        const isLimited = timeElapsed < this.apiRateLimitWindow;
+        const nextAllowedTime = this.getNextAllowedRequestTime();
+        const isLimited = nextAllowedTime > now;
         
         if (isLimited) {
-            const timeToWait = Math.ceil((this.apiRateLimitWindow - timeElapsed) / 1000 / 60);
+            const timeToWait = Math.ceil((nextAllowedTime - now) / 1000 / 60);
             this.log(`⚠️ RATE LIMITED: Need to wait ${timeToWait} more minutes before API call.`, 'info');
             
             // Log more detailed debugging information
             this.log(`Rate limit details: 
                Current time: ${new Date(now).toISOString()}
-               Last API call: ${new Date(lastCallTime).toISOString()} 
-               Last sync time: ${new Date(lastSyncTime).toISOString()}
-               Most recent event: ${new Date(lastRelevantTime).toISOString()}
-               Time elapsed: ${timeElapsed}ms
-               Rate limit window: ${this.apiRateLimitWindow}ms (${this.apiRateLimitWindow/1000/60} minutes)
-               Time remaining: ${this.apiRateLimitWindow - timeElapsed}ms
-               Will be free at: ${new Date(lastRelevantTime + this.apiRateLimitWindow).toISOString()}`, 'debug');
+               Requests remaining: ${this.settings.rateLimitRemaining}/${this.settings.rateLimitLimit}
+               Window resets at: ${this.settings.rateLimitReset ? new Date(this.settings.rateLimitReset).toISOString() : 'unknown'}
+               Last API call: ${new Date(this.lastApiCallTime || 0).toISOString()} 
+               Last sync time: ${new Date(this.settings.lastSyncTime || 0).toISOString()}
+               Will be free at: ${new Date(nextAllowedTime).toISOString()}`, 'debug');
         } else {
-            this.log(`Not rate limited. Last API call was ${Math.floor(timeElapsed/1000/60)} minutes ago.`, 'debug');
+            this.log(`Not rate limited. ${this.settings.rateLimitRemaining} request(s) remaining in the current window.`, 'debug');
         }
         
         return isLimited;
     }
     
+    /**
+     * Get the earliest time the next bookmarks request may be made.
+     * Uses the rate limit headers X reported on the last bookmarks response. Before any headers
+     * have been seen, falls back to one request per 15 minute window since the last API call.
+     * @returns Timestamp in ms, at or before now if a request can be made immediately
+     */
+    public getNextAllowedRequestTime(): number {
+        const now = Date.now();
+        
+        if (this.settings.rateLimitReset > 0) {
+            // A new window has started since the headers were recorded, so the budget is renewed
+            if (now >= this.settings.rateLimitReset) {
+                return now;
+            }
+            return this.settings.rateLimitRemaining > 0 ? now : this.settings.rateLimitReset;
+        }
+        
+        const lastRelevantTime = Math.max(this.lastApiCallTime || 0, this.settings.lastSyncTime || 0);
+        if (lastRelevantTime === 0) {
+            return now;
+        }
+        return Math.max(now, lastRelevantTime + this.apiRateLimitWindow);
+    }
+    
+    /**
+     * Get what is known about an endpoint's rate limit window.
+     * The bookmarks window is kept in settings, so the scheduler can use it across restarts.
+     */
+    private getRateLimitWindow(endpoint: XEndpoint): RateLimitWindow {
+        if (endpoint === 'bookmarks') {
+            return {
+                limit: this.settings.rateLimitLimit,
+                remaining: this.settings.rateLimitRemaining,
+                reset: this.settings.rateLimitReset
+            };
+        }
+        return this.rateLimitWindows.get(endpoint) || { limit: 0, remaining: 0, reset: 0 };
+    }
+    
+    private setRateLimitWindow(endpoint: XEndpoint, window: RateLimitWindow): void {
+        if (endpoint === 'bookmarks') {
+            this.settings.rateLimitLimit = window.limit;
+            this.settings.rateLimitRemaining = window.remaining;
+            this.settings.rateLimitReset = window.reset;
+        } else {
+            this.rateLimitWindows.set(endpoint, window);
+        }
+    }
+    
+    /**
+     * Get how many requests to an endpoint can be made now without exceeding X's rate limit
+     */
+    private getRemainingRequests(endpoint: XEndpoint): number {
+        if (this.settings.bypassRateLimit) {
+            return Infinity;
+        }
+        return getRemainingRequests(this.getRateLimitWindow(endpoint), Date.now());
+    }
+    
+    /**
+     * Count a request against its endpoint's budget. Call this right before every X API request.
+     * @throws RateLimitBudgetError if the budget is used up; its message mentions the rate limit
+     */
+    private takeRequest(endpoint: XEndpoint): void {
+        if (this.settings.bypassRateLimit) {
+            return;
+        }
+        
+        const now = Date.now();
+        const window = this.getRateLimitWindow(endpoint);
+        if (getRemainingRequests(window, now) <= 0) {
+            this.log(`RATE LIMIT BUDGET: No requests left for ${getEndpointName(endpoint)} until ${new Date(window.reset).toISOString()}`, 'info');
+            throw new RateLimitBudgetError(endpoint, window.reset);
+        }
+        this.setRateLimitWindow(endpoint, takeRequest(window, now, this.apiRateLimitWindow));
+    }
+    
+    /**
+     * Update an endpoint's budget from the rate limit headers of a response or error,
+     * persisting the bookmarks window
+     * @param rateLimit The parsed x-rate-limit-* headers, undefined if the response had none
+     */
+    private async recordRateLimit(endpoint: XEndpoint, rateLimit: RateLimitHeaders | undefined): Promise<void> {
+        if (!rateLimit) return;
+        
+        this.setRateLimitWindow(endpoint, getWindowFromHeaders(rateLimit));
+        this.log(`RATE LIMIT HEADERS (${getEndpointName(endpoint)}): Remaining=${rateLimit.remaining}/${rateLimit.limit}, Reset=${new Date(rateLimit.reset * 1000).toISOString()}`, 'info');
+        if (endpoint !== 'bookmarks') return;
+        
+        try {
+            await this.saveSettingsCallback();
+        } catch (error) {
+            this.log(`Error saving rate limit info: ${error}`, 'error');
+        }
+    }
+    
+    /**
+     * Check if an error is X rejecting a request for exceeding the rate limit
+     */
+    private isRateLimitError(error: any): boolean {
+        return error?.code === 429 || (error?.errors && error.errors[0]?.code === 88);
+    }
+    
     /**
      * Update the rate limit timestamp after making an API call
      * Also saves to settings for persistence across restarts
@@ -895,7 +1206,18 @@ export class TwitterService {
         }
     }
 
-    public async fetchBookmarks(lastSyncTimestamp: number): Promise<TwitterBookmark[]> {
+    /**
+     * Fetch bookmarks from X, newest bookmark first.
+     * During the initial sync every page is walked across sync sessions. Afterwards each sync walks
+     * from the newest bookmark until it reaches a page containing an already imported bookmark, so
+     * bookmarks of old tweets are never skipped because of the tweet's age.
+     * The saved pagination state is not changed here: each page is handed to onPage, which must
+     * process it and then save its cursor, so a page that fails to process is fetched again.
+     * @param knownBookmarkIds IDs of bookmarks that have already been imported
+     * @param onPage Called with each page before the next one is fetched; an error stops the sync
+     * @returns The bookmarks that have not been imported yet
+     */
+    public async fetchBookmarks(knownBookmarkIds: Set<string>, onPage: (page: BookmarkPage) => Promise<void>): Promise<TwitterBookmark[]> {
         // Prevent concurrent API calls
         if (this.apiCallsInProgress) {
             this.log('API call already in progress, aborting', 'info');
@@ -904,9 +1226,8 @@ export class TwitterService {
         
         // Check if we're rate limited BEFORE making any calls
         if (this.isRateLimited()) {
-            const timeElapsed = Date.now() - Math.max(this.lastApiCallTime, this.settings.lastSyncTime);
-            const timeToWait = Math.ceil((this.apiRateLimitWindow - timeElapsed) / 1000 / 60);
-            const nextAllowedTime = new Date(Math.max(this.lastApiCallTime, this.settings.lastSyncTime) + this.apiRateLimitWindow);
+            const nextAllowedTime = new Date(this.getNextAllowedRequestTime());
+            const timeToWait = Math.ceil((nextAllowedTime.getTime() - Date.now()) / 1000 / 60);
             
             this.log(`⛔ RATE LIMIT CHECK: Cannot proceed with API call - still in rate limit window.`, 'error');
             this.log(`Next allowed time: ${nextAllowedTime.toISOString()} (in ${timeToWait} minutes)`, 'info');
@@ -927,145 +1248,147 @@ export class TwitterService {
                 }
             }
 
-            // Log that we're making the "me" API call
-            this.log(`STARTING BOOKMARKS SYNC: Retrieving user information first`, 'info');
-            this.log('API CALL: GET /2/users/me (to get user ID)', 'info');
-            
-            // Update the rate limit timestamp for the me() API call
-            await this.updateRateLimitTimestamp();
-            this.log(`API timestamp updated to prevent rapid consecutive calls`, 'debug');
-            
-            let currentUser;
-            try {
-                currentUser = await this.client.v2.me();
-                this.log(`API RESPONSE: User ID ${currentUser.data.id} retrieved successfully`, 'info');
-            } catch (userError: any) {
-                this.log(`Error getting current user: ${userError}`, 'error');
-                
-                if (userError.code === 429 || (userError.errors && userError.errors[0]?.code === 88)) {
-                    this.log(`RATE LIMIT REACHED on GET /2/users/me call`, 'error');
-                    // Get reset time if available
-                    const resetTimeRaw = userError.rateLimit?.reset;
-                    let waitTimeMsg = '15 minutes';
-                    if (resetTimeRaw) {
-                        const resetTime = new Date(resetTimeRaw * 1000);
-                        const waitMinutes = Math.ceil((resetTime.getTime() - Date.now()) / (1000 * 60));
-                        waitTimeMsg = `${waitMinutes} minutes (until ${resetTime.toISOString()})`;
-                    }
-                    
-                    throw new Error(`X API rate limit exceeded on user info request. Please wait ${waitTimeMsg} before trying again.`);
-                }
-                
-                throw userError; // re-throw if not a rate limit error
-            }
-            
-            const userId = currentUser.data.id;
+            this.log('STARTING BOOKMARKS SYNC', 'info');
+            const userId = await this.getAuthenticatedUserId();
 
             // Store all bookmarks here
             const allBookmarks: TwitterBookmark[] = [];
-            const MAX_REQUESTS = 1; // X API limits to 1 request per 15 minutes
+            
+            // Bookmark folder membership, loaded once per sync if folder syncing is enabled
+            let folderMap: Map<string, string> | null = null;
+            // Make as many page requests as the rate limit window allows, checked again before every page
+            // since thread and folder requests and each response's headers change what is left
             let requestCount = 0;
             
             // Determine if we're continuing pagination or starting fresh
             let paginationToken: string | undefined = undefined;
             
-            if (!this.settings.initialSyncComplete && this.settings.nextPaginationToken) {
-                // If we're in the middle of the initial sync, use the saved token
+            if (this.settings.nextPaginationToken) {
+                // Continue walking from where the previous sync session stopped
                 paginationToken = this.settings.nextPaginationToken;
                 this.log(`Continuing bookmarks sync from page ${this.settings.lastSyncPage + 1} with saved pagination token`, 'info');
             } else if (this.settings.initialSyncComplete) {
-                // If we've completed the initial sync, we're just looking for new bookmarks
-                this.log(`Initial sync complete, checking for new bookmarks since ${new Date(lastSyncTimestamp).toISOString()}`, 'info');
+                // If we've completed the initial sync, walk from the newest bookmark until we reach known ones
+                this.log(`Initial sync complete, checking for new bookmarks until reaching one of ${knownBookmarkIds.size} already imported`, 'info');
             } else {
                 // Starting a fresh sync
                 this.log('Starting initial bookmark sync', 'info');
             }
             
             // Log the rate limit info
-            this.log(`⚠️ RATE LIMIT INFO: X API allows 1 request per 15 minutes per user.`, 'info');
+            this.log(`⚠️ RATE LIMIT INFO: ${this.getRemainingRequests('bookmarks')} bookmarks request(s) available in the current window.`, 'info');
 
             // Track if we've made a request in this session
             let madeRequest = false;
             
-            while (requestCount < MAX_REQUESTS) {
+            // Whether more pages should be fetched in this session
+            let hasMorePages = true;
+            
+            while (hasMorePages && requestCount < this.maxPagesPerSync && this.getRemainingRequests('bookmarks') > 0) {
                 requestCount++;
                 madeRequest = true;
+                let page: BookmarkPage;
                 
-                this.log(`API CALL: GET /2/users/${userId}/bookmarks (request ${requestCount}/${MAX_REQUESTS})`, 'info');
+                this.log(`API CALL: GET /2/users/${userId}/bookmarks (request ${requestCount}, ${this.getRemainingRequests('bookmarks') - 1} left in the window)`, 'info');
                 
                 // Log detailed parameters
-                this.log(`API parameters: expansions=[author_id,attachments.media_keys], user.fields=[name,username], media.fields=[url,preview_image_url], tweet.fields=[created_at], max_results=100${paginationToken ? `, pagination_token=${paginationToken.substring(0, 10)}...` : ''}`, 'debug');
+                this.log(`API parameters: expansions=[author_id,attachments.media_keys,referenced_tweets.id,referenced_tweets.id.author_id,referenced_tweets.id.attachments.media_keys], user.fields=[name,username,description,verified,profile_image_url], media.fields=[url,preview_image_url,type], tweet.fields=[created_at,lang,source,public_metrics,entities,conversation_id,referenced_tweets,author_id,attachments,note_tweet,article], max_results=100${paginationToken ? `, pagination_token=${paginationToken.substring(0, 10)}...` : ''}`, 'debug');
                 
                 // Update timestamp BEFORE making the API call
                 await this.updateRateLimitTimestamp();
                 
                 try {
+                    this.takeRequest('bookmarks');
                     // Fetch bookmarks with parameters
                     const bookmarksResponse = await this.client.v2.bookmarks({
-                        expansions: ['author_id', 'attachments.media_keys'],
-                        'user.fields': ['name', 'username'],
-                        'media.fields': ['url', 'preview_image_url'],
-                        'tweet.fields': ['created_at'],
+                        ...TWEET_LOOKUP_PARAMS,
                         max_results: 100, // Maximum allowed
                         pagination_token: paginationToken
                     });
                     
                     this.log(`API RESPONSE: Received bookmarks response with status OK, found ${bookmarksResponse.data.data?.length || 0} bookmark(s)`, 'info');
                     
+                    // Persist the rate limit headers so the scheduler and the loop know the real budget
+                    await this.recordRateLimit('bookmarks', bookmarksResponse.rateLimit);
+                    
                     // Process the current page of bookmarks
-                    const bookmarks = this.processBookmarksPage(bookmarksResponse, this.settings.initialSyncComplete ? lastSyncTimestamp : 0);
-                    allBookmarks.push(...bookmarks);
+                    const pageBookmarks = this.processBookmarksPage(bookmarksResponse);
                     
-                    // Update the last sync page
-                    this.settings.lastSyncPage++;
+                    // Bookmarks are ordered by when they were bookmarked, so a known bookmark means
+                    // everything after it was imported by an earlier sync
+                    const reachedKnownBookmark = pageBookmarks.some(bookmark => knownBookmarkIds.has(bookmark.id));
+                    const newBookmarks = pageBookmarks.filter(bookmark => !knownBookmarkIds.has(bookmark.id));
+                    this.log(`Page contains ${newBookmarks.length} new and ${pageBookmarks.length - newBookmarks.length} already imported bookmark(s)`, 'info');
+                    // Already imported bookmarks are kept when their notes should be refreshed
+                    const bookmarks = this.settings.refreshExistingNotes ? pageBookmarks : newBookmarks;
                     
-                    // Check for rate limit headers
-                    if (bookmarksResponse.rateLimit) {
-                        this.log(`RATE LIMIT HEADERS: Remaining=${bookmarksResponse.rateLimit.remaining}/${bookmarksResponse.rateLimit.limit}, Reset=${new Date(bookmarksResponse.rateLimit.reset * 1000).toISOString()}`, 'info');
+                    // Collect the author's self-replies for each bookmarked tweet
+                    if (this.settings.unrollThreads) {
+                        await this.attachThreads(bookmarks);
                     }
                     
-                    // Check if there's another page
-                    if (bookmarksResponse.meta && bookmarksResponse.meta.next_token) {
-                        // Save the pagination token for the next run
-                        this.settings.nextPaginationToken = bookmarksResponse.meta.next_token;
-                        this.log(`PAGINATION: Found next pagination token: ${this.settings.nextPaginationToken.substring(0, 10)}...`, 'debug');
-                        this.log(`⚠️ MORE DATA AVAILABLE: There are more bookmarks available. You'll need to sync again in 15 minutes to continue.`, 'info');
-                        
-                        // Not done with initial sync
-                        this.settings.initialSyncComplete = false;
-                        await this.saveSettingsCallback(); // Save after updating pagination info
-                        break;
+                    // Record which X bookmark folder each bookmark is filed in
+                    if (this.settings.syncBookmarkFolders) {
+                        if (!folderMap) {
+                            folderMap = await this.getBookmarkFolderMap(userId);
+                        }
+                        for (const bookmark of bookmarks) {
+                            bookmark.folder = folderMap.get(bookmark.id) || null;
+                        }
+                    }
+                    
+                    allBookmarks.push(...bookmarks);
+                    
+                    // Work out the pagination state to save once this page has been processed
+                    const cursor: SyncCursor = {
+                        nextPaginationToken: '',
+                        initialSyncComplete: this.settings.initialSyncComplete,
+                        lastSyncPage: this.settings.lastSyncPage + 1
+                    };
+                    
+                    // Check if there's another page worth fetching
+                    if (this.settings.initialSyncComplete && reachedKnownBookmark) {
+                        // Caught up with the bookmarks imported by earlier syncs
+                        hasMorePages = false;
+                        this.log('SYNC COMPLETE: Reached already imported bookmarks, all new bookmarks retrieved', 'info');
+                    } else if (bookmarksResponse.meta && bookmarksResponse.meta.next_token) {
+                        // Save the pagination token for the next request or run
+                        cursor.nextPaginationToken = bookmarksResponse.meta.next_token;
+                        paginationToken = bookmarksResponse.meta.next_token;
+                        this.log(`PAGINATION: Found next pagination token: ${cursor.nextPaginationToken.substring(0, 10)}...`, 'debug');
+                        this.log(`⚠️ MORE DATA AVAILABLE: There are more bookmarks available. Sync continues while the rate limit allows, then after the window resets.`, 'info');
                     } else {
-                        // No more pages, we've completed the initial sync
-                        this.settings.nextPaginationToken = '';
-                        this.settings.initialSyncComplete = true;
+                        // No more pages, we've reached the end of all bookmarks
+                        cursor.initialSyncComplete = true;
+                        hasMorePages = false;
                         this.log('SYNC COMPLETE: No more pages available, reached the end of all bookmarks', 'info');
-                        await this.saveSettingsCallback(); // Save after completing sync
-                        break;
                     }
+                    
+                    page = { bookmarks, cursor };
                 } catch (bookmarkError: any) {
                     this.log(`Error fetching bookmarks: ${bookmarkError}`, 'error');
                     
                     // Enhanced rate limit error handling
-                    if (bookmarkError.code === 429 || (bookmarkError.errors && bookmarkError.errors[0]?.code === 88)) {
+                    if (this.isRateLimitError(bookmarkError)) {
                         this.log(`RATE LIMIT REACHED on GET /2/users/${userId}/bookmarks call`, 'error');
                         
-                        // Extract any rate limit information
-                        if (bookmarkError.rateLimit) {
-                            const resetTime = new Date(bookmarkError.rateLimit.reset * 1000);
-                            this.log(`Rate limit reset time: ${resetTime.toISOString()}`, 'info');
-                        }
+                        // Persist the rate limit information so the scheduler waits for the reset
+                        await this.recordRateLimit('bookmarks', bookmarkError.rateLimit);
                         
                         // Still update rate limit timestamp
                         await this.updateRateLimitTimestamp();
                         
                         // Throw with better message
-                        throw new Error(`X API rate limit exceeded. Please try again in 15 minutes.`);
+                        const waitMinutes = Math.ceil((this.getNextAllowedRequestTime() - Date.now()) / (1000 * 60));
+                        throw new Error(`X API rate limit exceeded. Please try again in ${waitMinutes} minutes.`);
                     }
                     
                     // Re-throw the error
                     throw bookmarkError;
                 }
+                
+                // Process the page and save its cursor before fetching the next one
+                await onPage(page);
             }
             
             if (!madeRequest) {
@@ -1089,18 +1412,12 @@ export class TwitterService {
             }
             
             // Check if this is a rate limit error
-            if (errorObj.code === 429 || (errorObj.errors && errorObj.errors[0]?.code === 88)) {
-                const resetTimeHeader = errorObj.rateLimit?.reset;
-                let waitMessage = 'X API rate limit exceeded. Please try again in 15 minutes.';
-                
-                if (resetTimeHeader) {
-                    const resetTime = new Date(resetTimeHeader * 1000);
-                    const waitMinutes = Math.ceil((resetTime.getTime() - Date.now()) / (1000 * 60));
-                    waitMessage = `X API rate limit exceeded. Please try again in ${waitMinutes} minutes.`;
-                }
-                
+            if (this.isRateLimitError(errorObj)) {
                 await this.updateRateLimitTimestamp(); // Update timestamp on rate limit error
                 
+                const waitMinutes = Math.ceil((this.getNextAllowedRequestTime() - Date.now()) / (1000 * 60));
+                const waitMessage = `X API rate limit exceeded. Please try again in ${waitMinutes} minutes.`;
+                
                 // Add debug info about bypass setting
                 if (!this.settings.bypassRateLimit) {
                     this.log(`TIP: For debugging, you can temporarily bypass the client-side rate limit in Settings > Debug Settings. This won't prevent X API 429 errors but will bypass the waiting period between requests.`, 'info');
@@ -1120,6 +1437,8 @@ export class TwitterService {
                  /unauthorized/i.test(String(error)))) {
                 
                 this.log('Token may have expired, attempting to refresh once...', 'info');
+                // Look the account up again in case the token now belongs to a different one
+                this.clearAuthenticatedUser();
                 
                 try {
                     const refreshed = await this.refreshAccessToken();
@@ -1146,10 +1465,55 @@ export class TwitterService {
         }
     }
     
+    /**
+     * Remove a bookmark from the user's X bookmarks.
+     * Requires the bookmark.write scope, which is only requested while removal after import is enabled.
+     * @throws RateLimitBudgetError if X's rate limit for removing bookmarks is reached
+     * @throws Error if the bookmark could not be removed for another reason
+     */
+    public async removeBookmark(tweetId: string): Promise<void> {
+        if (!this.client) {
+            this.initializeClient();
+            if (!this.client) {
+                throw new Error('Twitter client not initialized. Check your API credentials or authorize with X.');
+            }
+        }
+        
+        const userId = await this.getAuthenticatedUserId();
+        
+        this.log(`API CALL: DELETE /2/users/${userId}/bookmarks/${tweetId}`, 'info');
+        
+        this.takeRequest('removeBookmark');
+        try {
+            const response = await this.client.v2.delete(`users/${userId}/bookmarks/${tweetId}`, undefined, { fullResponse: true });
+            await this.recordRateLimit('removeBookmark', response.rateLimit);
+            if (response.data?.data?.bookmarked !== false) {
+                throw new Error(`Unexpected response: ${JSON.stringify(response.data)}`);
+            }
+            this.log(`Removed bookmark ${tweetId} from X`, 'info');
+        } catch (removeError: any) {
+            this.log(`Error removing bookmark ${tweetId} from X: ${removeError}`, 'error');
+            await this.recordRateLimit('removeBookmark', removeError.rateLimit);
+            
+            if (removeError.code === 401) {
+                // Look the account up again in case the token now belongs to a different one
+                this.clearAuthenticatedUser();
+            }
+            if (removeError.code === 403) {
+                throw new Error('X refused to remove the bookmark. Re-authenticate so the plugin is granted the bookmark.write permission.');
+            }
+            if (this.isRateLimitError(removeError)) {
+                const reset = this.getRateLimitWindow('removeBookmark').reset;
+                throw new RateLimitBudgetError('removeBookmark', reset > Date.now() ? reset : Date.now() + this.apiRateLimitWindow);
+            }
+            throw removeError;
+        }
+    }
+
     /**
      * Process a single page of bookmarks from the API response
      */
-    private processBookmarksPage(bookmarksResponse: any, lastSyncTimestamp: number): TwitterBookmark[] {
+    private processBookmarksPage(bookmarksResponse: any): TwitterBookmark[] {
         const bookmarks: TwitterBookmark[] = [];
         
         // Process each bookmark tweet
@@ -1160,30 +1524,56 @@ export class TwitterService {
             );
             
             // Find media attachments
-            const mediaKeys = tweet.attachments?.media_keys || [];
-            const mediaItems = bookmarksResponse.data.includes?.media || [];
-            const mediaUrls = mediaKeys
-                .map((key: string) => {
-                    const media = mediaItems.find((item: TwitterMedia) => item.media_key === key);
-                    return media?.url || media?.preview_image_url || null;
-                })
-                .filter((url: string | null) => url !== null) as string[];
-
-            // Skip tweets created before the last sync (if we have a timestamp)
+            const mediaUrls = this.resolveMediaUrls(tweet, bookmarksResponse.data.includes);
+
             const tweetCreatedAt = new Date(tweet.created_at as string);
-            if (lastSyncTimestamp > 0 && tweetCreatedAt.getTime() <= lastSyncTimestamp) {
-                continue;
-            }
+
+            // Engagement metrics are only present when public_metrics was returned
+            const publicMetrics = tweet.public_metrics;
+            const metrics: TweetMetrics | null = publicMetrics ? {
+                retweetCount: publicMetrics.retweet_count || 0,
+                replyCount: publicMetrics.reply_count || 0,
+                likeCount: publicMetrics.like_count || 0,
+                quoteCount: publicMetrics.quote_count || 0
+            } : null;
+
+            // Find the quoted tweet and reply parent, if X returned them
+            const quotedTweet = this.resolveReferencedTweet(tweet, 'quoted', bookmarksResponse.data.includes);
+            const inReplyTo = this.resolveReferencedTweet(tweet, 'replied_to', bookmarksResponse.data.includes);
+
+            const hashtags = (tweet.entities?.hashtags || [])
+                .map((hashtag: { tag: string }) => hashtag.tag)
+                .filter((tag: string) => !!tag);
+
+            // X Articles carry a title and preview separate from the tweet text
+            const article: TwitterArticle | null = tweet.article?.title ? {
+                title: tweet.article.title,
+                previewText: tweet.article.preview_text || ''
+            } : null;
 
             // Create a bookmark object
             bookmarks.push({
                 id: tweet.id,
-                text: tweet.text,
+                conversationId: tweet.conversation_id || tweet.id,
+                text: this.resolveTweetText(tweet),
                 createdAt: tweetCreatedAt,
+                lang: tweet.lang || '',
+                source: tweet.source || '',
                 authorId: tweet.author_id as string,
                 authorUsername: author?.username || 'unknown',
                 authorName: author?.name || 'Unknown User',
+                authorDescription: author?.description || '',
+                authorVerified: !!author?.verified,
+                authorProfileImageUrl: author?.profile_image_url || '',
                 mediaUrls,
+                hashtags,
+                links: this.resolveLinks(tweet),
+                metrics,
+                thread: [],
+                quotedTweet,
+                inReplyTo,
+                article,
+                folder: null,
                 tweetUrl: `https://twitter.com/${author?.username}/status/${tweet.id}`
             });
         }
@@ -1191,6 +1581,315 @@ export class TwitterService {
         return bookmarks;
     }
 
+    /**
+     * Look up tweets by ID, e.g. to import again bookmarks whose notes were deleted.
+     * Uses the tweet lookup endpoint, which has its own rate limit separate from bookmarks.
+     * @param tweetIds IDs of the tweets to fetch
+     * @returns The tweets that still exist, in the same form as fetched bookmarks
+     */
+    public async fetchTweetsByIds(tweetIds: string[]): Promise<TwitterBookmark[]> {
+        if (tweetIds.length === 0) {
+            return [];
+        }
+        
+        if (!this.client) {
+            this.initializeClient();
+            if (!this.client) {
+                throw new Error('Twitter client not initialized. Check your API credentials or authorize with X.');
+            }
+        }
+        
+        const tweets: TwitterBookmark[] = [];
+        
+        // The lookup endpoint accepts up to 100 IDs per request
+        for (let i = 0; i < tweetIds.length; i += 100) {
+            const batch = tweetIds.slice(i, i + 100);
+            this.log(`API CALL: GET /2/tweets (${batch.length} ID(s))`, 'info');
+            
+            this.takeRequest('tweetLookup');
+            try {
+                // Requested directly rather than with v2.tweets() to get the rate limit headers
+                const lookupResponse = await this.client.v2.get<TweetV2LookupResult>('tweets',
+                    { ids: batch, ...TWEET_LOOKUP_PARAMS }, { fullResponse: true });
+                await this.recordRateLimit('tweetLookup', lookupResponse.rateLimit);
+                // Same shape as a bookmarks page, so it can be processed the same way
+                tweets.push(...this.processBookmarksPage({ data: lookupResponse.data }));
+            } catch (lookupError: any) {
+                this.log(`Error looking up tweets: ${lookupError}`, 'error');
+                await this.recordRateLimit('tweetLookup', lookupError.rateLimit);
+                
+                if (this.isRateLimitError(lookupError)) {
+                    throw new Error('X API rate limit exceeded while looking up tweets to re-import.');
+                }
+                throw lookupError;
+            }
+        }
+        
+        if (this.settings.unrollThreads) {
+            await this.attachThreads(tweets);
+        }
+        
+        this.log(`Looked up ${tweets.length} of ${tweetIds.length} tweet(s)`, 'info');
+        return tweets;
+    }
+
+    /**
+     * Get a map of tweet ID to bookmark folder name using the bookmark folders endpoints.
+     * The map is cached between syncs: each sync only reads each folder's newest pages until
+     * it reaches tweets already known to be filed there, and the whole map is rebuilt once it
+     * is older than a day. Folders are only available to paid X accounts; on failure the
+     * bookmarks that could not be matched to a folder are imported without one.
+     */
+    private async getBookmarkFolderMap(userId: string): Promise<Map<string, string>> {
+        const cache = this.folderMapCache && this.folderMapCache.userId === userId ? this.folderMapCache : null;
+        const rebuild = !cache || Date.now() - cache.builtAt > this.folderMapMaxAge;
+        const knownFolders = cache ? cache.folders : new Map<string, string>();
+        const folderMap = new Map<string, string>(rebuild ? [] : knownFolders);
+        if (!this.client) return folderMap;
+        
+        this.log(rebuild ? 'Rebuilding the bookmark folder map' : 'Updating the cached bookmark folder map', 'info');
+        
+        try {
+            // List all folders, following pagination
+            const folders: { id: string; name: string }[] = [];
+            let foldersToken: string | undefined = undefined;
+            do {
+                this.log(`API CALL: GET /2/users/${userId}/bookmarks/folders`, 'info');
+                const foldersResponse = await this.requestBookmarkFolders(`users/${userId}/bookmarks/folders`, foldersToken);
+                folders.push(...(foldersResponse.data || []));
+                foldersToken = foldersResponse.meta?.next_token;
+            } while (foldersToken);
+            
+            this.log(`Found ${folders.length} bookmark folder(s)`, 'info');
+            
+            // Each folder endpoint returns the IDs of the tweets filed in it, newest first
+            for (const folder of folders) {
+                let folderToken: string | undefined = undefined;
+                do {
+                    this.log(`API CALL: GET /2/users/${userId}/bookmarks/folders/${folder.id} (${folder.name})`, 'info');
+                    const folderResponse = await this.requestBookmarkFolders(`users/${userId}/bookmarks/folders/${folder.id}`, folderToken);
+                    const tweets: { id: string }[] = folderResponse.data || [];
+                    for (const tweet of tweets) {
+                        folderMap.set(tweet.id, folder.name);
+                    }
+                    folderToken = folderResponse.meta?.next_token;
+                    
+                    // The rest of the folder was read by an earlier sync
+                    if (!rebuild && tweets.some(tweet => knownFolders.get(tweet.id) === folder.name)) {
+                        folderToken = undefined;
+                    }
+                } while (folderToken);
+            }
+            
+            this.folderMapCache = { userId, folders: folderMap, builtAt: rebuild || !cache ? Date.now() : cache.builtAt };
+        } catch (folderError) {
+            this.log(`Could not load all bookmark folders, unmatched bookmarks will be imported without a folder: ${folderError}`, 'error');
+            
+            // Keep what was read, falling back to the cached folders for tweets not read yet
+            if (rebuild) {
+                knownFolders.forEach((folder, tweetId) => {
+                    if (!folderMap.has(tweetId)) folderMap.set(tweetId, folder);
+                });
+            }
+            this.folderMapCache = { userId, folders: folderMap, builtAt: cache ? cache.builtAt : 0 };
+        }
+        
+        return folderMap;
+    }
+
+    /**
+     * Request a page from one of the bookmark folders endpoints, which share a rate limit
+     */
+    private async requestBookmarkFolders(endpointPath: string, paginationToken: string | undefined): Promise<any> {
+        if (!this.client) {
+            throw new Error('Twitter client not initialized. Check your API credentials or authorize with X.');
+        }
+        
+        this.takeRequest('bookmarkFolders');
+        try {
+            const response = await this.client.v2.get(endpointPath,
+                paginationToken ? { pagination_token: paginationToken } : {}, { fullResponse: true });
+            await this.recordRateLimit('bookmarkFolders', response.rateLimit);
+            return response.data;
+        } catch (folderError: any) {
+            await this.recordRateLimit('bookmarkFolders', folderError.rateLimit);
+            throw folderError;
+        }
+    }
+
+    /**
+     * Get the full text of a tweet as Markdown. Long-form tweets over 280 characters are
+     * truncated in the text field and carry their full text in note_tweet.
+     * t.co links are replaced with Markdown links to their expanded URL, and links to the
+     * tweet's own media are removed because the media is embedded separately.
+     */
+    private resolveTweetText(tweet: any): string {
+        const isNoteTweet = !!tweet.note_tweet?.text;
+        let text: string = isNoteTweet ? tweet.note_tweet.text : tweet.text;
+        
+        for (const urlEntity of this.getUrlEntities(tweet)) {
+            if (!urlEntity.url || !text.includes(urlEntity.url)) continue;
+            
+            const replacement = this.isMediaUrlEntity(tweet, urlEntity)
+                ? ''
+                : `[${urlEntity.display_url || urlEntity.expanded_url || urlEntity.url}](${urlEntity.expanded_url || urlEntity.url})`;
+            text = text.split(urlEntity.url).join(replacement);
+        }
+        
+        return text.trim();
+    }
+
+    /**
+     * Get the non-media links shared in a tweet, with titles and descriptions when X provides them
+     */
+    private resolveLinks(tweet: any): TwitterLink[] {
+        const links: TwitterLink[] = [];
+        
+        for (const urlEntity of this.getUrlEntities(tweet)) {
+            if (this.isMediaUrlEntity(tweet, urlEntity)) continue;
+            
+            const url = urlEntity.unwound_url || urlEntity.expanded_url || urlEntity.url;
+            if (!url || links.some(link => link.url === url)) continue;
+            
+            links.push({
+                url,
+                displayUrl: urlEntity.display_url || url,
+                title: urlEntity.title || '',
+                description: urlEntity.description || ''
+            });
+        }
+        
+        return links;
+    }
+
+    /**
+     * Get the URL entities for the text that resolveTweetText uses
+     */
+    private getUrlEntities(tweet: any): TwitterUrlEntity[] {
+        const entities = tweet.note_tweet?.text ? tweet.note_tweet.entities : tweet.entities;
+        return entities?.urls || [];
+    }
+
+    /**
+     * Check whether a URL entity is the self-link X appends for the tweet's own photo or video
+     */
+    private isMediaUrlEntity(tweet: any, urlEntity: TwitterUrlEntity): boolean {
+        if (urlEntity.media_key) return true;
+        
+        const expandedUrl = urlEntity.expanded_url || '';
+        return new RegExp(`/status/${tweet.id}/(photo|video)/\\d+$`).test(expandedUrl);
+    }
+
+    /**
+     * Resolve the media URLs attached to a tweet from the response includes
+     */
+    private resolveMediaUrls(tweet: any, includes: any): string[] {
+        const mediaKeys = tweet.attachments?.media_keys || [];
+        const mediaItems = includes?.media || [];
+        return mediaKeys
+            .map((key: string) => {
+                const media = mediaItems.find((item: TwitterMedia) => item.media_key === key);
+                return media?.url || media?.preview_image_url || null;
+            })
+            .filter((url: string | null) => url !== null) as string[];
+    }
+
+    /**
+     * Resolve a referenced tweet of the given type from the response includes.
+     * Returns null if the tweet has no such reference or X did not return it (e.g. deleted or protected).
+     */
+    private resolveReferencedTweet(tweet: any, type: 'quoted' | 'replied_to', includes: any): TwitterReferencedTweet | null {
+        const reference = (tweet.referenced_tweets || []).find((ref: { type: string }) => ref.type === type);
+        if (!reference) return null;
+        
+        const referencedTweet = (includes?.tweets || []).find((item: { id: string }) => item.id === reference.id);
+        if (!referencedTweet) {
+            this.log(`Referenced ${type} tweet ${reference.id} for ${tweet.id} was not included in the response`, 'debug');
+            return null;
+        }
+        
+        const author = includes?.users?.find(
+            (user: TwitterUser) => user.id === referencedTweet.author_id
+        );
+        
+        return {
+            id: referencedTweet.id,
+            text: this.resolveTweetText(referencedTweet),
+            createdAt: new Date(referencedTweet.created_at as string),
+            authorId: referencedTweet.author_id as string,
+            authorUsername: author?.username || 'unknown',
+            authorName: author?.name || 'Unknown User',
+            mediaUrls: this.resolveMediaUrls(referencedTweet, includes),
+            tweetUrl: `https://twitter.com/${author?.username}/status/${referencedTweet.id}`
+        };
+    }
+
+    /**
+     * Attach the author's self-replies to each bookmark that starts or belongs to a thread.
+     * Uses the recent search endpoint, so only threads from the last 7 days can be unrolled.
+     * Failures are logged and leave the bookmark without a thread.
+     */
+    private async attachThreads(bookmarks: TwitterBookmark[]): Promise<void> {
+        if (!this.client) return;
+        
+        for (const bookmark of bookmarks) {
+            // A conversation root without replies cannot have a thread, so skip the request
+            const isConversationRoot = bookmark.conversationId === bookmark.id;
+            if (isConversationRoot && bookmark.metrics && bookmark.metrics.replyCount === 0) {
+                continue;
+            }
+            
+            const query = `conversation_id:${bookmark.conversationId} from:${bookmark.authorUsername}`;
+            this.log(`API CALL: GET /2/tweets/search/recent (thread for ${bookmark.id}, query: ${query})`, 'info');
+            
+            try {
+                this.takeRequest('search');
+                const searchResponse = await this.client.v2.search(query, {
+                    expansions: ['attachments.media_keys'],
+                    'media.fields': ['url', 'preview_image_url', 'type'],
+                    'tweet.fields': ['created_at', 'author_id', 'in_reply_to_user_id', 'conversation_id', 'note_tweet', 'entities'],
+                    max_results: 100
+                });
+                await this.recordRateLimit('search', searchResponse.rateLimit);
+                
+                bookmark.thread = (searchResponse.data.data || [])
+                    // Keep the thread root and replies the author made to themselves
+                    .filter((tweet: any) => tweet.id !== bookmark.id &&
+                        tweet.author_id === bookmark.authorId &&
+                        (tweet.id === bookmark.conversationId || tweet.in_reply_to_user_id === bookmark.authorId))
+                    .map((tweet: any) => ({
+                        id: tweet.id,
+                        text: this.resolveTweetText(tweet),
+                        createdAt: new Date(tweet.created_at as string),
+                        mediaUrls: this.resolveMediaUrls(tweet, searchResponse.data.includes),
+                        tweetUrl: `https://twitter.com/${bookmark.authorUsername}/status/${tweet.id}`
+                    }))
+                    .sort((a: TwitterThreadTweet, b: TwitterThreadTweet) => this.compareTweetIds(a.id, b.id));
+                
+                this.log(`Found ${bookmark.thread.length} thread tweet(s) for bookmark ${bookmark.id}`, 'info');
+            } catch (threadError: any) {
+                this.log(`Could not unroll thread for bookmark ${bookmark.id}: ${threadError}`, 'error');
+                await this.recordRateLimit('search', threadError.rateLimit);
+                
+                // Stop trying once the search endpoint is rate limited for this window
+                if (threadError instanceof RateLimitBudgetError || this.isRateLimitError(threadError)) {
+                    this.log('RATE LIMIT REACHED on thread search, remaining threads will not be unrolled this sync', 'error');
+                    return;
+                }
+            }
+        }
+    }
+
+    /**
+     * Compare two tweet IDs numerically. IDs exceed Number precision, so compare as strings.
+     */
+    private compareTweetIds(a: string, b: string): number {
+        if (a.length !== b.length) {
+            return a.length - b.length;
+        }
+        return a < b ? -1 : a > b ? 1 : 0;
+    }
+
     /**
      * Check if we're currently rate limited - can be called by external code
      * @returns True if rate limited, false if not
@@ -1204,24 +1903,12 @@ export class TwitterService {
         }
 
         const now = Date.now();
-        const lastCallTime = this.lastApiCallTime || 0;
-        const lastSyncTime = this.settings.lastSyncTime || 0;
-        const lastRelevantTime = Math.max(lastCallTime, lastSyncTime);
-        
-        // If no previous calls have been made, we're not rate limited
-        if (lastRelevantTime === 0) {
-            this.log('No previous API calls detected, not rate limited', 'debug');
-            return false;
-        }
+        const nextAllowedTime = this.getNextAllowedRequestTime();
         
-        const timeElapsed = now - lastRelevantTime;
-        const isLimited = timeElapsed < this.apiRateLimitWindow;
-        
-        if (isLimited) {
-            const timeToWait = Math.ceil((this.apiRateLimitWindow - timeElapsed) / 1000 / 60);
-            const nextAllowedTime = new Date(lastRelevantTime + this.apiRateLimitWindow);
+        if (nextAllowedTime > now) {
+            const timeToWait = Math.ceil((nextAllowedTime - now) / 1000 / 60);
             
-            const errorMessage = `X API rate limit active. Please wait approximately ${timeToWait} more minutes (until ${nextAllowedTime.toLocaleTimeString()}).`;
+            const errorMessage = `X API rate limit active. Please wait approximately ${timeToWait} more minutes (until ${new Date(nextAllowedTime).toLocaleTimeString()}).`;
             this.log(`RATE LIMIT CHECK: ${errorMessage}`, 'info');
             throw new Error(errorMessage);
         }
@@ -0,0 +1,343 @@
+import { checkConditionalTemplate, ConditionalTemplate } from './core/conditional-templates';
+import { checkRoutingRule, FolderRoutingRule } from './core/folder-routing';
+import { isFrontmatterPropertyName } from './core/frontmatter';
+import { getLatestVersion, Migration, runMigrations } from './core/migrations';
+
+/**
+ * Upgrades for settings saved by older versions of the plugin, in order.
+ * Add a migration with the next version number whenever a setting is renamed, removed or
+ * changes meaning; migrations may also run on already upgraded data, so keep them idempotent.
+ */
+const SETTINGS_MIGRATIONS: Migration[] = [
+	{
+		version: 1,
+		description: 'Fill in a missing single file name and drop the saved sync-in-progress flag',
+		migrate: (data) => {
+			if (!data.singleFileName) {
+				delete data.singleFileName;
+			}
+			// Replaced by the sync lease; a saved flag could be stuck from a crash
+			delete data.syncInProgress;
+		}
+	}
+];
+
+export const SETTINGS_VERSION = getLatestVersion(SETTINGS_MIGRATIONS);
+
+/**
+ * Settings of the plugin, shared by the plugin, the Twitter service and the bookmark processor
+ */
+export interface BookmarkBridgeSettings {
+	// Version of the saved settings, see SETTINGS_MIGRATIONS
+	settingsVersion: number;
+	
+	// OAuth 2.0 credentials
+	clientId: string;
+	clientSecret: string;
+	oauth2AccessToken: string;
+	oauth2RefreshToken: string;
+	oauth2Scope: string; // Space-separated scopes X granted the access token, empty if unknown
+	codeVerifier: string;
+	
+	// Authenticated account, cached after token exchange so syncs don't need /2/users/me
+	userId: string;
+	username: string;
+	userDisplayName: string;
+	
+	// Storage settings
+	storageMethod: 'separate' | 'single'; // Store bookmarks as separate files or in a single file
+	targetFolder: string;
+	singleFileName: string; // Filename for single file storage
+	fileNameTemplate: string; // Template for the names of separate notes, without the extension
+	fileNameMaxLength: number; // Maximum length of separate note names, in characters
+	
+	// Sync state
+	lastSyncTimestamp: number; // When the last sync finished after the initial sync (display only)
+	logFile: string;
+	
+	// Template settings
+	template: string; // Template for all bookmark formats, used when no conditional template matches
+	conditionalTemplates: ConditionalTemplate[]; // Templates for bookmarks that meet a condition; the first match wins
+	useCustomTemplate: boolean; // Whether to use custom templates
+	frontmatterProperties: string[]; // Generated properties to include in frontmatter, see FRONTMATTER_PROPERTIES
+	staticFrontmatter: string; // Properties added to every new note, one "name: value" per line
+	
+	// Pagination tracking
+	nextPaginationToken: string; // Token for the next page of bookmarks
+	initialSyncComplete: boolean; // Whether we've completed the initial full sync
+	lastSyncPage: number; // Last page of bookmarks we've synced
+	lastSyncTime: number; // Timestamp of the last sync attempt (for rate limit tracking)
+	
+	// Rate limit state reported by X for the bookmarks endpoint
+	rateLimitLimit: number; // Requests allowed per window (x-rate-limit-limit), 0 if unknown
+	rateLimitRemaining: number; // Requests left in the current window (x-rate-limit-remaining)
+	rateLimitReset: number; // When the current window resets, in ms (x-rate-limit-reset), 0 if unknown
+	
+	// Automatic sync settings
+	autoSync: boolean; // Whether to automatically sync bookmarks
+	
+	// Thread settings
+	unrollThreads: boolean; // Whether to fetch the author's self-replies for bookmarked tweets
+	
+	// Folder settings
+	syncBookmarkFolders: boolean; // Whether to read X bookmark folders and mirror them in the vault
+	folderRoutingRules: FolderRoutingRule[]; // Folders for separate notes by condition; the first matching rule wins
+	
+	// Inbox settings
+	removeFromXAfterImport: boolean; // Whether to remove bookmarks from X once they are saved in the vault
+	deletedNoteBehavior: 'reimport' | 'tombstone'; // Whether a bookmark whose note was deleted is imported again or remembered as deleted
+	refreshExistingNotes: boolean; // Whether already imported notes are re-rendered in place when fetched again
+	
+	// Debug settings
+	bypassRateLimit: boolean; // DEBUG ONLY: Bypass the built-in rate limit check
+}
+
+export const DEFAULT_SETTINGS: BookmarkBridgeSettings = {
+	settingsVersion: SETTINGS_VERSION,
+	
+	// OAuth 2.0 defaults
+	clientId: '',
+	clientSecret: '',
+	oauth2AccessToken: '',
+	oauth2RefreshToken: '',
+	oauth2Scope: '',
+	codeVerifier: '',
+	
+	// Authenticated account defaults (filled in after token exchange)
+	userId: '',
+	username: '',
+	userDisplayName: '',
+	
+	// Storage defaults
+	storageMethod: 'separate', // Default to separate files
+	targetFolder: 'Twitter Bookmarks',
+	singleFileName: 'twitter-bookmarks.md', // Default filename for single file storage
+	fileNameTemplate: 'Tweet-{{id}}-{{truncate text 30 ""}}',
+	fileNameMaxLength: 100,
+	
+	// Sync state
+	lastSyncTimestamp: 0,
+	logFile: '', // Will be set on plugin load
+	
+	// Template defaults
+	useCustomTemplate: false,
+	frontmatterProperties: ['tweet_id', 'author', 'date'],
+	staticFrontmatter: '',
+	conditionalTemplates: [],
+	template: `{{frontmatter}}
+
+# Tweet by @{{authorUsername}}
+
+{{#inReplyTo}}
+> Replying to **@{{authorUsername}}** ({{authorName}}):
+>
+{{blockquote}}
+>
+> [View on Twitter]({{tweetUrl}})
+
+{{/inReplyTo}}
+{{text}}
+
+{{#article}}
+## Article: {{title}}
+
+{{previewText}}
+
+{{/article}}
+{{#quotedTweet}}
+> Quoting **@{{authorUsername}}** ({{authorName}}):
+>
+{{blockquote}}
+>
+> [View on Twitter]({{tweetUrl}})
+
+{{/quotedTweet}}
+{{#hasMedia}}
+## Media
+
+{{#mediaUrls}}
+![]({{.}})
+
+{{/mediaUrls}}
+{{/hasMedia}}
+
+{{#hasLinks}}
+## Links
+
+{{#links}}
+- [{{title}}]({{url}}) {{description}}
+{{/links}}
+
+{{/hasLinks}}
+{{#hasThread}}
+## Thread
+
+{{#thread}}
+{{text}}
+
+{{/thread}}
+{{/hasThread}}
+
+[View on Twitter]({{tweetUrl}})`,
+
+	// Pagination defaults
+	nextPaginationToken: '',
+	initialSyncComplete: false,
+	lastSyncPage: 0,
+	lastSyncTime: 0,
+	
+	// Rate limit defaults (unknown until X reports headers)
+	rateLimitLimit: 0,
+	rateLimitRemaining: 0,
+	rateLimitReset: 0,
+	
+	// Automatic sync defaults
+	autoSync: true,
+	
+	// Thread defaults
+	unrollThreads: false,
+	
+	// Folder defaults
+	syncBookmarkFolders: false,
+	folderRoutingRules: [],
+	
+	// Inbox defaults
+	removeFromXAfterImport: false,
+	deletedNoteBehavior: 'tombstone', // Deleted notes stay deleted
+	refreshExistingNotes: false,
+	
+	// Debug defaults
+	bypassRateLimit: false
+};
+
+/**
+ * What a valid value of a setting looks like
+ */
+type SettingRule =
+	| { type: 'string'; required?: boolean }
+	| { type: 'number'; min?: number; integer?: boolean }
+	| { type: 'boolean' }
+	| { type: 'enum'; values: string[] }
+	| { type: 'list'; checkItem: (item: unknown) => string | null };
+
+const SETTINGS_SCHEMA: Record<keyof BookmarkBridgeSettings, SettingRule> = {
+	settingsVersion: { type: 'number', min: 0, integer: true },
+	clientId: { type: 'string' },
+	clientSecret: { type: 'string' },
+	oauth2AccessToken: { type: 'string' },
+	oauth2RefreshToken: { type: 'string' },
+	oauth2Scope: { type: 'string' },
+	codeVerifier: { type: 'string' },
+	userId: { type: 'string' },
+	username: { type: 'string' },
+	userDisplayName: { type: 'string' },
+	storageMethod: { type: 'enum', values: ['separate', 'single'] },
+	targetFolder: { type: 'string', required: true },
+	singleFileName: { type: 'string', required: true },
+	fileNameTemplate: { type: 'string', required: true },
+	fileNameMaxLength: { type: 'number', min: 10, integer: true },
+	lastSyncTimestamp: { type: 'number', min: 0 },
+	logFile: { type: 'string' },
+	template: { type: 'string' },
+	conditionalTemplates: { type: 'list', checkItem: checkConditionalTemplate },
+	useCustomTemplate: { type: 'boolean' },
+	frontmatterProperties: { type: 'list', checkItem: (item) => isFrontmatterPropertyName(item) ? null : 'is not a known property' },
+	staticFrontmatter: { type: 'string' },
+	nextPaginationToken: { type: 'string' },
+	initialSyncComplete: { type: 'boolean' },
+	lastSyncPage: { type: 'number', min: 0, integer: true },
+	lastSyncTime: { type: 'number', min: 0 },
+	rateLimitLimit: { type: 'number', min: 0, integer: true },
+	rateLimitRemaining: { type: 'number', min: 0, integer: true },
+	rateLimitReset: { type: 'number', min: 0 },
+	autoSync: { type: 'boolean' },
+	unrollThreads: { type: 'boolean' },
+	syncBookmarkFolders: { type: 'boolean' },
+	folderRoutingRules: { type: 'list', checkItem: checkRoutingRule },
+	removeFromXAfterImport: { type: 'boolean' },
+	deletedNoteBehavior: { type: 'enum', values: ['reimport', 'tombstone'] },
+	refreshExistingNotes: { type: 'boolean' },
+	bypassRateLimit: { type: 'boolean' }
+};
+
+/**
+ * Settings read from disk, with what had to be changed to load them
+ */
+export interface LoadedSettings {
+	settings: BookmarkBridgeSettings;
+	problems: string[]; // Invalid values that were replaced by their defaults, and other problems found
+	migrations: string[]; // Migrations that were applied
+	changed: boolean; // Whether the settings differ from what was saved and should be saved again
+}
+
+/**
+ * Check a value against its rule
+ * @returns A description of what is wrong with the value, or null if it is valid
+ */
+export function checkSettingValue(key: keyof BookmarkBridgeSettings, value: unknown): string | null {
+	const rule = SETTINGS_SCHEMA[key];
+	switch (rule.type) {
+		case 'string':
+			if (typeof value !== 'string') return 'must be text';
+			if (rule.required && !value.trim()) return 'must not be empty';
+			return null;
+		case 'number':
+			if (typeof value !== 'number' || !isFinite(value)) return 'must be a number';
+			if (rule.min !== undefined && value < rule.min) return `must be at least ${rule.min}`;
+			if (rule.integer && Math.floor(value) !== value) return 'must be a whole number';
+			return null;
+		case 'boolean':
+			return typeof value === 'boolean' ? null : 'must be true or false';
+		case 'enum':
+			return typeof value === 'string' && rule.values.includes(value)
+				? null
+				: `must be one of ${rule.values.map(allowed => `"${allowed}"`).join(', ')}`;
+		case 'list': {
+			if (!Array.isArray(value)) return 'must be a list';
+			for (let i = 0; i < value.length; i++) {
+				const problem = rule.checkItem(value[i]);
+				if (problem) return `item ${i + 1} ${problem}`;
+			}
+			return null;
+		}
+	}
+}
+
+/**
+ * Turn saved plugin data into settings: migrate it to the current version, fill in defaults
+ * for missing settings and replace invalid values with their defaults, reporting each one
+ * @param savedData The data returned by Plugin.loadData, null on first use
+ */
+export function parseSettings(savedData: unknown): LoadedSettings {
+	const settings: BookmarkBridgeSettings = { ...DEFAULT_SETTINGS };
+	if (savedData === null || savedData === undefined) {
+		return { settings, problems: [], migrations: [], changed: false };
+	}
+	if (typeof savedData !== 'object' || Array.isArray(savedData)) {
+		return { settings, problems: ['Saved settings could not be read and were reset to the defaults'], migrations: [], changed: true };
+	}
+
+	const data: Record<string, unknown> = { ...(savedData as Record<string, unknown>) };
+	const savedVersion = typeof data.settingsVersion === 'number' ? data.settingsVersion : 0;
+	const migration = runMigrations(data, savedVersion, SETTINGS_MIGRATIONS);
+	data.settingsVersion = migration.toVersion;
+
+	const problems: string[] = [];
+	const writableSettings = settings as unknown as Record<string, unknown>;
+	for (const key of Object.keys(SETTINGS_SCHEMA) as (keyof BookmarkBridgeSettings)[]) {
+		if (!(key in data)) continue;
+		const problem = checkSettingValue(key, data[key]);
+		if (problem) {
+			problems.push(`"${key}" ${problem}; using the default value instead`);
+		} else {
+			writableSettings[key] = data[key];
+		}
+	}
+
+	const changed = migration.applied.length > 0 || problems.length > 0;
+	if (savedVersion > SETTINGS_VERSION) {
+		problems.push(`Settings were saved by a newer version of the plugin (settings version ${savedVersion}); settings this version doesn't know are ignored`);
+	}
+
+	return { settings, problems, migrations: migration.applied, changed };
+}
@@ -0,0 +1,190 @@
+import * as assert from 'assert';
+import { BookmarkStorage } from '../src/core/bookmark-storage';
+import { BookmarkPage, TwitterBookmark } from '../src/services/twitter-service';
+import { describe, test } from './harness';
+import { atTime, MemoryVault, useDevice } from './memory-vault';
+
+const DATA_FOLDER = 'plugin/bookmark-data';
+
+/**
+ * Open the bookmark data as a device sees it
+ */
+function openStorage(vault: MemoryVault, deviceId: string): BookmarkStorage {
+    useDevice(deviceId);
+    return new BookmarkStorage(vault.app, DATA_FOLDER);
+}
+
+function record(tweetId: string, filePath: string) {
+    return { tweetId, filePath, importDate: new Date('2024-01-01T00:00:00.000Z') };
+}
+
+function bookmark(id: string): TwitterBookmark {
+    return {
+        id,
+        conversationId: id,
+        text: `Tweet ${id}`,
+        createdAt: new Date('2024-01-01T00:00:00.000Z'),
+        lang: 'en',
+        source: '',
+        authorId: '42',
+        authorUsername: 'jack',
+        authorName: 'Jack',
+        authorDescription: '',
+        authorVerified: false,
+        authorProfileImageUrl: '',
+        mediaUrls: [],
+        hashtags: [],
+        links: [],
+        metrics: null,
+        thread: [],
+        quotedTweet: null,
+        inReplyTo: null,
+        article: null,
+        folder: null,
+        tweetUrl: `https://x.com/jack/status/${id}`
+    };
+}
+
+function page(ids: string[], nextPaginationToken: string): BookmarkPage {
+    return { bookmarks: ids.map(bookmark), cursor: { nextPaginationToken, initialSyncComplete: false, lastSyncPage: 1 } };
+}
+
+describe('BookmarkStorage', () => {
+    test('keeps each device in its own data file', async () => {
+        const vault = new MemoryVault();
+        await openStorage(vault, 'laptop').saveBookmark(record('1', 'Bookmarks/1.md'));
+        await openStorage(vault, 'phone').saveBookmark(record('2', 'Bookmarks/2.md'));
+
+        assert.ok(`${DATA_FOLDER}/laptop.json` in vault.files);
+        assert.ok(`${DATA_FOLDER}/phone.json` in vault.files);
+        assert.deepStrictEqual(Object.keys(JSON.parse(vault.files[`${DATA_FOLDER}/phone.json`]).bookmarkRecords), ['2']);
+    });
+
+    test('reads the bookmarks imported on every device', async () => {
+        const vault = new MemoryVault();
+        await openStorage(vault, 'laptop').saveBookmark(record('1', 'Bookmarks/1.md'));
+        await openStorage(vault, 'phone').saveBookmark(record('2', 'Bookmarks/2.md'));
+
+        const storage = openStorage(vault, 'tablet');
+        assert.deepStrictEqual((await storage.getProcessedBookmarkIds()).sort(), ['1', '2']);
+        assert.strictEqual((await storage.getBookmarkById('1'))?.filePath, 'Bookmarks/1.md');
+    });
+
+    test('keeps the latest change of an entry changed on two devices', async () => {
+        const vault = new MemoryVault();
+        const laptop = openStorage(vault, 'laptop');
+        const phone = openStorage(vault, 'phone');
+        await atTime(1000, () => laptop.saveBookmark(record('1', 'Bookmarks/1.md')));
+        await atTime(3000, () => phone.saveBookmark(record('1', 'Moved/1.md')));
+        await atTime(2000, () => laptop.saveBookmark(record('1', 'Renamed/1.md')));
+
+        assert.strictEqual((await openStorage(vault, 'tablet').getBookmarkById('1'))?.filePath, 'Moved/1.md');
+    });
+
+    test('picks up changes from other devices on refresh', async () => {
+        const vault = new MemoryVault();
+        const laptop = openStorage(vault, 'laptop');
+        const phone = openStorage(vault, 'phone');
+        await atTime(1000, () => laptop.saveBookmark(record('1', 'Bookmarks/1.md')));
+        await atTime(2000, () => phone.saveBookmark(record('2', 'Bookmarks/2.md')));
+        assert.strictEqual(await laptop.isBookmarkProcessed('2'), false);
+
+        await laptop.refresh();
+        assert.strictEqual(await laptop.isBookmarkProcessed('2'), true);
+        assert.strictEqual(await laptop.isBookmarkProcessed('1'), true);
+    });
+
+    test('does not let an older copy bring back an entry removed on another device', async () => {
+        const vault = new MemoryVault();
+        const laptop = openStorage(vault, 'laptop');
+        await atTime(1000, () => laptop.saveBookmark(record('1', 'Bookmarks/1.md')));
+        const phone = openStorage(vault, 'phone');
+        await atTime(2000, () => phone.clearProcessedBookmarks());
+
+        await laptop.refresh();
+        assert.strictEqual(await laptop.isBookmarkProcessed('1'), false);
+        assert.strictEqual(JSON.parse(vault.files[`${DATA_FOLDER}/phone.json`]).processedBookmarks['1'].value, null);
+    });
+
+    test('lets a newer change replace a removed entry', async () => {
+        const vault = new MemoryVault();
+        const phone = openStorage(vault, 'phone');
+        await atTime(1000, () => phone.saveBookmark(record('1', 'Bookmarks/1.md')));
+        await atTime(2000, () => phone.markNotesDeleted('Bookmarks/1.md', true));
+        assert.deepStrictEqual((await phone.getBookmarksToReimport()).map(deleted => deleted.tweetId), ['1']);
+
+        const laptop = openStorage(vault, 'laptop');
+        await atTime(3000, () => laptop.saveBookmark(record('1', 'Bookmarks/1.md')));
+
+        await phone.refresh();
+        assert.strictEqual(await phone.isBookmarkProcessed('1'), true);
+        assert.deepStrictEqual(await phone.getBookmarksToReimport(), []);
+    });
+
+    test('stops re-importing deleted notes whose tweets X no longer returns', async () => {
+        const vault = new MemoryVault();
+        const storage = openStorage(vault, 'laptop');
+        await storage.saveBookmarks([record('1', 'Bookmarks/1.md'), record('2', 'Bookmarks/2.md'), record('3', 'Bookmarks/3.md')]);
+        await storage.markNotesDeleted('Bookmarks', true);
+
+        assert.strictEqual(await storage.markTweetsUnavailable(['2', '3']), 2);
+        assert.strictEqual(await storage.markTweetsUnavailable(['3']), 0);
+        assert.deepStrictEqual((await openStorage(vault, 'phone').getBookmarksToReimport()).map(deleted => deleted.tweetId), ['1']);
+    });
+});
+
+describe('BookmarkStorage sync journal', () => {
+    test('keeps journaled pages after Obsidian restarts, oldest first', async () => {
+        const vault = new MemoryVault();
+        const storage = openStorage(vault, 'laptop');
+        await atTime(1000, () => storage.addJournalPage(page(['1', '2'], 'a')));
+        await atTime(2000, () => storage.addJournalPage(page(['3'], 'b')));
+
+        const pages = await openStorage(vault, 'laptop').getPendingJournalPages();
+        assert.deepStrictEqual(pages.map(pending => pending.cursor.nextPaginationToken), ['a', 'b']);
+        assert.deepStrictEqual(pages[0].bookmarks, [bookmark('1'), bookmark('2')]);
+    });
+
+    test('removes a page once it is completed', async () => {
+        const vault = new MemoryVault();
+        const storage = openStorage(vault, 'laptop');
+        const first = await atTime(1000, () => storage.addJournalPage(page(['1'], 'a')));
+        await atTime(2000, () => storage.addJournalPage(page(['2'], 'b')));
+        await storage.completeJournalPage(first.id);
+
+        const pages = await openStorage(vault, 'laptop').getPendingJournalPages();
+        assert.deepStrictEqual(pages.map(pending => pending.cursor.nextPaginationToken), ['b']);
+    });
+
+    test('only replays the pages this device journaled', async () => {
+        const vault = new MemoryVault();
+        await openStorage(vault, 'laptop').addJournalPage(page(['1'], 'a'));
+
+        assert.deepStrictEqual(await openStorage(vault, 'phone').getPendingJournalPages(), []);
+    });
+
+    test('fails to journal a page that could not be written', async () => {
+        const vault = new MemoryVault();
+        const storage = openStorage(vault, 'laptop');
+        await storage.getPendingJournalPages();
+        vault.failWrites = true;
+
+        await assert.rejects(storage.addJournalPage(page(['1'], 'a')), /Could not write/);
+    });
+
+    test('fails a transaction whose changes could not be saved, and saves them with the next write', async () => {
+        const vault = new MemoryVault();
+        const storage = openStorage(vault, 'laptop');
+        await storage.getProcessedBookmarkIds();
+        vault.failWrites = true;
+
+        await assert.rejects(storage.transaction(() => storage.saveBookmark(record('1', 'Bookmarks/1.md'), bookmark('1'))), /Could not save bookmark data/);
+        assert.ok(!(`${DATA_FOLDER}/laptop.json` in vault.files));
+
+        vault.failWrites = false;
+        await storage.saveBookmark(record('2', 'Bookmarks/2.md'));
+        const reopened = openStorage(vault, 'laptop');
+        assert.deepStrictEqual((await reopened.getProcessedBookmarkIds()).sort(), ['1', '2']);
+        assert.strictEqual((await reopened.getBookmarkPayload('1'))?.text, 'Tweet 1');
+    });
+});
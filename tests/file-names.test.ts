@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { sanitizeFileName } from '../src/core/file-names';
+import { describe, test } from './harness';
+
+describe('sanitizeFileName', () => {
+    test('removes characters that are not allowed in file names or break links', () => {
+        assert.strictEqual(sanitizeFileName('a/b\\c:d*e?f"g<h>i|j#k^l[m]n', 100), 'abcdefghijklmn');
+    });
+
+    test('turns control characters and runs of whitespace into single spaces', () => {
+        assert.strictEqual(sanitizeFileName('line one\nline\ttwo\u0000  end', 100), 'line one line two end');
+    });
+
+    test('keeps letters of non-Latin scripts and emoji', () => {
+        assert.strictEqual(sanitizeFileName('日本語のツイート 🚀 Привет', 100), '日本語のツイート 🚀 Привет');
+    });
+
+    test('normalizes to NFC', () => {
+        assert.strictEqual(sanitizeFileName('été', 100), 'été');
+    });
+
+    test('removes leading dots and trailing dots and spaces', () => {
+        assert.strictEqual(sanitizeFileName('...hidden. . ', 100), 'hidden');
+    });
+
+    test('renames names Windows reserves for devices', () => {
+        assert.strictEqual(sanitizeFileName('CON', 100), 'CON_');
+        assert.strictEqual(sanitizeFileName('nul', 100), 'nul_');
+        assert.strictEqual(sanitizeFileName('com1.txt', 100), 'com1.txt_');
+        assert.strictEqual(sanitizeFileName('LPT9', 100), 'LPT9_');
+        assert.strictEqual(sanitizeFileName('console', 100), 'console');
+        assert.strictEqual(sanitizeFileName('com10', 100), 'com10');
+    });
+
+    test('renames reserved names left over after cleaning', () => {
+        assert.strictEqual(sanitizeFileName('aux.', 100), 'aux_');
+        assert.strictEqual(sanitizeFileName('p|r|n', 100), 'prn_');
+    });
+
+    test('shortens names to the maximum length in characters', () => {
+        assert.strictEqual(sanitizeFileName('abcdefghij', 5), 'abcde');
+        assert.strictEqual(sanitizeFileName('🚀🚀🚀🚀', 2), '🚀🚀');
+    });
+
+    test('shortens names to 200 bytes without cutting a character in half', () => {
+        const sanitized = sanitizeFileName('語'.repeat(100), 100);
+        assert.strictEqual(sanitized, '語'.repeat(66));
+    });
+
+    test('returns an empty string when nothing usable is left', () => {
+        assert.strictEqual(sanitizeFileName('/:*?', 100), '');
+        assert.strictEqual(sanitizeFileName('  ', 100), '');
+    });
+});
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { parseStaticProperties, serializeFrontmatter } from '../src/core/frontmatter';
+import { describe, test } from './harness';
+
+describe('serializeFrontmatter', () => {
+    test('writes plain strings, numbers and booleans without quotes', () => {
+        assert.strictEqual(
+            serializeFrontmatter({ author: 'Jack Dorsey', likes: 42, pinned: true, title: 'Émile (draft), v2.1' }),
+            'author: Jack Dorsey\nlikes: 42\npinned: true\ntitle: Émile (draft), v2.1'
+        );
+    });
+
+    test('quotes strings YAML would read as booleans or null', () => {
+        for (const value of ['yes', 'No', 'on', 'OFF', 'y', 'true', 'null', '~']) {
+            assert.strictEqual(serializeFrontmatter({ value }), `value: "${value}"`);
+        }
+    });
+
+    test('quotes strings YAML would read as numbers', () => {
+        for (const value of ['42', '-1.5', '.5', '1e3', '1_000', '1.', '0x1F', '0o17', '0b101', '.inf', '-.Inf', '.NaN']) {
+            assert.strictEqual(serializeFrontmatter({ value }), `value: "${value}"`);
+        }
+    });
+
+    test('quotes strings YAML would read as dates, times or sexagesimal numbers', () => {
+        for (const value of ['2024-01-01', '2024-1-1', '2024-01-01T10:00:00Z', '2024-01-01 10:00', '12:30', '1:20:30.5']) {
+            assert.strictEqual(serializeFrontmatter({ value }), `value: "${value}"`);
+        }
+    });
+
+    test('quotes and escapes strings with YAML syntax or surrounding spaces', () => {
+        assert.strictEqual(serializeFrontmatter({ value: '#hashtag' }), 'value: "#hashtag"');
+        assert.strictEqual(serializeFrontmatter({ value: 'a: b' }), 'value: "a: b"');
+        assert.strictEqual(serializeFrontmatter({ value: ' padded ' }), 'value: " padded "');
+        assert.strictEqual(serializeFrontmatter({ value: 'say "hi"\nbye' }), 'value: "say \\"hi\\"\\nbye"');
+        assert.strictEqual(serializeFrontmatter({ value: '' }), 'value: ""');
+    });
+
+    test('quotes property names that are not plain', () => {
+        assert.strictEqual(serializeFrontmatter({ 'a: b': 'x', 'true': 'z', '2024-01-01': 'z' }), '"a: b": x\n"true": z\n"2024-01-01": z');
+    });
+
+    test('writes lists one item per line and empty lists inline', () => {
+        assert.strictEqual(serializeFrontmatter({ tags: ['rust', '2024'], aliases: [] }), 'tags:\n  - rust\n  - "2024"\naliases: []');
+    });
+
+    test('writes dates as local date and time', () => {
+        assert.strictEqual(serializeFrontmatter({ date: new Date(2024, 0, 2, 3, 4, 5) }), 'date: 2024-01-02T03:04:05');
+    });
+
+    test('writes numbers that are not finite as text', () => {
+        assert.strictEqual(serializeFrontmatter({ value: NaN }), 'value: "NaN"');
+    });
+});
+
+describe('parseStaticProperties', () => {
+    test('reads text, numbers, checkboxes and lists', () => {
+        const { properties, errors } = parseStaticProperties('source: X\ncount: 3\nread: FALSE\ntags: [a, "b c", \'d\']\nquoted: "42"');
+        assert.deepStrictEqual(properties, { source: 'X', count: 3, read: false, tags: ['a', 'b c', 'd'], quoted: '42' });
+        assert.deepStrictEqual(errors, []);
+    });
+
+    test('skips empty lines and comments and reports lines it cannot read', () => {
+        const { properties, errors } = parseStaticProperties('# comment\n\nvalid: yes\nno colon here\n: no name');
+        assert.deepStrictEqual(properties, { valid: 'yes' });
+        assert.deepStrictEqual(errors, ['Line 4: expected "name: value"', 'Line 5: expected "name: value"']);
+    });
+});
@@ -0,0 +1,54 @@
+/**
+ * A minimal test harness: test files register tests with describe() and test(), and
+ * tests/run.mjs bundles them and calls run().
+ */
+
+interface RegisteredTest {
+    name: string;
+    fn: () => void | Promise<void>;
+}
+
+const tests: RegisteredTest[] = [];
+const suites: string[] = [];
+
+/**
+ * Group the tests registered by fn under a name
+ */
+export function describe(name: string, fn: () => void): void {
+    suites.push(name);
+    try {
+        fn();
+    } finally {
+        suites.pop();
+    }
+}
+
+/**
+ * Register a test; it fails if fn throws or returns a promise that rejects
+ */
+export function test(name: string, fn: () => void | Promise<void>): void {
+    tests.push({ name: [...suites, name].join(' > '), fn });
+}
+
+/**
+ * Run every registered test in order, report the results and set a failing exit code
+ * if any test failed
+ */
+export async function run(): Promise<void> {
+    let failed = 0;
+    for (const registered of tests) {
+        try {
+            await registered.fn();
+            console.log(`ok - ${registered.name}`);
+        } catch (error) {
+            failed++;
+            console.log(`not ok - ${registered.name}`);
+            console.log(error);
+        }
+    }
+
+    console.log(`\n${tests.length - failed} passed, ${failed} failed`);
+    if (failed > 0) {
+        process.exitCode = 1;
+    }
+}
@@ -0,0 +1,75 @@
+import { App } from 'obsidian';
+
+/**
+ * An in-memory stand-in for the vault adapter, for testing code that keeps its data in
+ * files in the vault
+ */
+export class MemoryVault {
+    files: Record<string, string> = {};
+    failWrites: boolean = false; // Makes every write throw, like a full or read-only disk
+
+    readonly app = {
+        vault: {
+            adapter: {
+                exists: async (path: string) => path in this.files || this.getChildren(path).length > 0,
+                list: async (path: string) => {
+                    const children = this.getChildren(path);
+                    return {
+                        files: children.filter(child => !child.includes('/')).map(child => `${path}/${child}`),
+                        folders: Array.from(new Set(children.filter(child => child.includes('/')).map(child => `${path}/${child.split('/')[0]}`)))
+                    };
+                },
+                read: async (path: string) => {
+                    if (!(path in this.files)) {
+                        throw new Error(`${path} does not exist`);
+                    }
+                    return this.files[path];
+                },
+                write: async (path: string, data: string) => {
+                    if (this.failWrites) {
+                        throw new Error(`Could not write ${path}`);
+                    }
+                    this.files[path] = data;
+                },
+                remove: async (path: string) => {
+                    delete this.files[path];
+                },
+                // Folders only exist through the files in them
+                mkdir: async () => undefined
+            }
+        }
+    } as unknown as App;
+
+    private getChildren(path: string): string[] {
+        return Object.keys(this.files)
+            .filter(file => file.startsWith(`${path}/`))
+            .map(file => file.substring(path.length + 1));
+    }
+}
+
+const storage: Record<string, string> = {};
+
+/**
+ * Make the code under test run as the given device, by setting the device ID it reads from localStorage
+ */
+export function useDevice(deviceId: string): void {
+    (globalThis as any).localStorage = {
+        getItem: (key: string) => (key in storage ? storage[key] : null),
+        setItem: (key: string, value: string) => { storage[key] = value; },
+        removeItem: (key: string) => { delete storage[key]; }
+    };
+    storage['bookmark-bridge-device-id'] = deviceId;
+}
+
+/**
+ * Run fn with Date.now() returning the given time
+ */
+export async function atTime<T>(time: number, fn: () => Promise<T>): Promise<T> {
+    const realNow = Date.now;
+    Date.now = () => time;
+    try {
+        return await fn();
+    } finally {
+        Date.now = realNow;
+    }
+}
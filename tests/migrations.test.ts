@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { getLatestVersion, Migration, runMigrations } from '../src/core/migrations';
+import { describe, test } from './harness';
+
+// Each migration records that it ran, so tests can check which ran and in what order
+const MIGRATIONS: Migration[] = [
+    { version: 3, description: 'Third', migrate: (data) => { data.log = `${data.log || ''}3`; } },
+    { version: 1, description: 'First', migrate: (data) => { data.log = `${data.log || ''}1`; } },
+    { version: 2, description: 'Second', migrate: (data) => { data.log = `${data.log || ''}2`; } }
+];
+
+describe('getLatestVersion', () => {
+    test('is the highest migration version', () => {
+        assert.strictEqual(getLatestVersion(MIGRATIONS), 3);
+    });
+
+    test('is 0 without migrations', () => {
+        assert.strictEqual(getLatestVersion([]), 0);
+    });
+});
+
+describe('runMigrations', () => {
+    test('runs every migration in version order for unversioned data', () => {
+        const data: Record<string, unknown> = {};
+        assert.deepStrictEqual(runMigrations(data, 0, MIGRATIONS), { fromVersion: 0, toVersion: 3, applied: ['First', 'Second', 'Third'] });
+        assert.strictEqual(data.log, '123');
+    });
+
+    test('only runs migrations newer than the data', () => {
+        const data: Record<string, unknown> = {};
+        assert.deepStrictEqual(runMigrations(data, 1, MIGRATIONS), { fromVersion: 1, toVersion: 3, applied: ['Second', 'Third'] });
+        assert.strictEqual(data.log, '23');
+    });
+
+    test('runs nothing for current data', () => {
+        const data: Record<string, unknown> = {};
+        assert.deepStrictEqual(runMigrations(data, 3, MIGRATIONS), { fromVersion: 3, toVersion: 3, applied: [] });
+        assert.deepStrictEqual(data, {});
+    });
+
+    test('leaves data from a newer version at its version', () => {
+        const data: Record<string, unknown> = { log: 'newer' };
+        assert.deepStrictEqual(runMigrations(data, 5, MIGRATIONS), { fromVersion: 5, toVersion: 5, applied: [] });
+        assert.deepStrictEqual(data, { log: 'newer' });
+    });
+});
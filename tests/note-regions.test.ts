@@ -0,0 +1,99 @@
+import * as assert from 'assert';
+import { refreshNote, replaceRegion, splitFrontmatter, wrapNoteRegion, wrapSectionRegion } from '../src/core/note-regions';
+import { describe, test } from './harness';
+
+const START = '<!-- bookmark-bridge:start -->';
+const END = '<!-- bookmark-bridge:end -->';
+
+describe('splitFrontmatter', () => {
+    test('splits frontmatter from the body', () => {
+        assert.deepStrictEqual(splitFrontmatter('---\na: 1\n---\nBody'), { frontmatter: 'a: 1', body: 'Body' });
+        assert.deepStrictEqual(splitFrontmatter('---\r\na: 1\r\n---\r\nBody'), { frontmatter: 'a: 1', body: 'Body' });
+    });
+
+    test('treats a note without a leading --- as having no frontmatter', () => {
+        assert.deepStrictEqual(splitFrontmatter('Body\n---\na: 1\n---'), { frontmatter: null, body: 'Body\n---\na: 1\n---' });
+    });
+});
+
+describe('wrapNoteRegion', () => {
+    test('wraps the body and leaves the frontmatter outside the region', () => {
+        assert.strictEqual(wrapNoteRegion('---\na: 1\n---\n\n# Tweet\n\nText\n\n'), `---\na: 1\n---\n\n${START}\n# Tweet\n\nText\n${END}`);
+    });
+
+    test('leaves content that already has a region unchanged', () => {
+        const content = `Intro\n${START}\nText\n${END}\nOutro`;
+        assert.strictEqual(wrapNoteRegion(content), content);
+    });
+});
+
+describe('replaceRegion', () => {
+    test('replaces only the region and keeps what the user wrote around it', () => {
+        const existing = `My notes\n${START}\nOld\n${END}\nMore notes`;
+        const generated = `${START}\nNew\n${END}`;
+        assert.strictEqual(replaceRegion(existing, generated), `My notes\n${START}\nNew\n${END}\nMore notes`);
+    });
+
+    test('inserts $ sequences in the generated text literally', () => {
+        const existing = `${START}\nOld\n${END}`;
+        const generated = `${START}\nPrice $& $1 $$\n${END}`;
+        assert.strictEqual(replaceRegion(existing, generated), generated);
+    });
+
+    test('returns null when either side has no region', () => {
+        assert.strictEqual(replaceRegion('No region', `${START}\nNew\n${END}`), null);
+        assert.strictEqual(replaceRegion(`${START}\nOld\n${END}`, 'No region'), null);
+        assert.strictEqual(replaceRegion(`${START}\nOld without end`, `${START}\nNew\n${END}`), null);
+    });
+
+    test('replaces only the section of the given tweet in a single file', () => {
+        const file = `# Bookmarks\n\n${wrapSectionRegion('First old', '1')}\n\n${wrapSectionRegion('Second old', '2')}\n`;
+        const updated = replaceRegion(file, wrapSectionRegion('Second new', '2'), '2');
+        assert.strictEqual(updated, `# Bookmarks\n\n${wrapSectionRegion('First old', '1')}\n\n${wrapSectionRegion('Second new', '2')}\n`);
+        assert.strictEqual(replaceRegion(file, wrapSectionRegion('Third', '3'), '3'), null);
+    });
+});
+
+describe('refreshNote', () => {
+    test('replaces generated properties and the region, keeping the user\'s properties and text', () => {
+        const existing = `---\ntweet_id: "1"\nlikes: 3\nstatus: read\ntags:\n  - mine\n---\n\nMy thoughts\n${START}\nOld\n${END}\n`;
+        const generated = `---\ntweet_id: "1"\nlikes: 10\n---\n\n${START}\nNew\n${END}`;
+        assert.deepStrictEqual(refreshNote(existing, generated), {
+            content: `---\ntweet_id: "1"\nlikes: 10\nstatus: read\ntags:\n  - mine\n---\n\nMy thoughts\n${START}\nNew\n${END}\n`,
+            regionUpdated: true
+        });
+    });
+
+    test('replaces list properties with all of their items', () => {
+        const existing = '---\ntags:\n  - old\n  - older\nstatus: read\n---\nBody';
+        const generated = '---\ntags:\n  - new\n---\n';
+        assert.strictEqual(refreshNote(existing, generated).content, '---\ntags:\n  - new\nstatus: read\n---\nBody');
+    });
+
+    test('only adds kept properties that the note doesn\'t have yet', () => {
+        const existing = '---\nauthor: Edited by me\n---\nBody';
+        const generated = '---\nauthor: Jack\ndate: 2024-01-01T00:00:00\n---\n';
+        assert.strictEqual(
+            refreshNote(existing, generated, ['author', 'date']).content,
+            '---\nauthor: Edited by me\ndate: 2024-01-01T00:00:00\n---\nBody'
+        );
+    });
+
+    test('adds frontmatter to a note that has none, followed by a blank line', () => {
+        const existing = `${START}\nOld\n${END}`;
+        const generated = `---\ntweet_id: "1"\n---\n\n${START}\nNew\n${END}`;
+        assert.deepStrictEqual(refreshNote(existing, generated), {
+            content: `---\ntweet_id: "1"\n---\n\n${START}\nNew\n${END}`,
+            regionUpdated: true
+        });
+    });
+
+    test('reports notes without a region and leaves their body alone', () => {
+        const existing = '---\nlikes: 3\n---\nEdited body';
+        const generated = `---\nlikes: 10\n---\n${START}\nNew\n${END}`;
+        assert.deepStrictEqual(refreshNote(existing, generated), {
+            content: '---\nlikes: 10\n---\nEdited body',
+            regionUpdated: false
+        });
+    });
+});
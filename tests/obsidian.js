@@ -0,0 +1,5 @@
+// The obsidian package only contains type definitions; Obsidian provides the module when the
+// plugin runs. Tests get the parts of it that the tested code uses.
+module.exports = {
+    moment: require('moment')
+};
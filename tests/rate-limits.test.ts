@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { getRemainingRequests, getWindowFromHeaders, takeRequest } from '../src/services/rate-limits';
+import { describe, test } from './harness';
+
+const NOW = 1700000000000;
+const MINUTE = 60 * 1000;
+
+describe('getRemainingRequests', () => {
+    test('is what is left while the window is open', () => {
+        assert.strictEqual(getRemainingRequests({ limit: 180, remaining: 3, reset: NOW + MINUTE }, NOW), 3);
+        assert.strictEqual(getRemainingRequests({ limit: 180, remaining: 0, reset: NOW + MINUTE }, NOW), 0);
+    });
+
+    test('is the full limit once the window has reset', () => {
+        assert.strictEqual(getRemainingRequests({ limit: 180, remaining: 0, reset: NOW }, NOW), 180);
+        assert.strictEqual(getRemainingRequests({ limit: 180, remaining: 0, reset: NOW - MINUTE }, NOW), 180);
+    });
+
+    test('allows one request before X has reported a limit', () => {
+        assert.strictEqual(getRemainingRequests({ limit: 0, remaining: 0, reset: 0 }, NOW), 1);
+    });
+});
+
+describe('takeRequest', () => {
+    test('counts a request against an open window', () => {
+        const window = takeRequest({ limit: 180, remaining: 3, reset: NOW + MINUTE }, NOW, 15 * MINUTE);
+        assert.deepStrictEqual(window, { limit: 180, remaining: 2, reset: NOW + MINUTE });
+    });
+
+    test('never goes below zero', () => {
+        const window = takeRequest({ limit: 180, remaining: 0, reset: NOW + MINUTE }, NOW, 15 * MINUTE);
+        assert.strictEqual(window.remaining, 0);
+    });
+
+    test('starts a new window of the fallback length once the window has reset', () => {
+        const window = takeRequest({ limit: 180, remaining: 0, reset: NOW - MINUTE }, NOW, 15 * MINUTE);
+        assert.deepStrictEqual(window, { limit: 180, remaining: 179, reset: NOW + 15 * MINUTE });
+    });
+
+    test('uses up the single request allowed before X has reported a limit', () => {
+        const window = takeRequest({ limit: 0, remaining: 0, reset: 0 }, NOW, 15 * MINUTE);
+        assert.deepStrictEqual(window, { limit: 0, remaining: 0, reset: NOW + 15 * MINUTE });
+        assert.strictEqual(getRemainingRequests(window, NOW + MINUTE), 0);
+    });
+
+    test('does not change the window it was given', () => {
+        const window = { limit: 180, remaining: 3, reset: NOW + MINUTE };
+        takeRequest(window, NOW, 15 * MINUTE);
+        assert.strictEqual(window.remaining, 3);
+    });
+});
+
+describe('getWindowFromHeaders', () => {
+    test('converts the reset time from seconds to milliseconds', () => {
+        assert.deepStrictEqual(getWindowFromHeaders({ limit: 180, remaining: 179, reset: NOW / 1000 }), { limit: 180, remaining: 179, reset: NOW });
+    });
+});
@@ -0,0 +1,48 @@
+import esbuild from "esbuild";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import process from "process";
+import { pathToFileURL } from "url";
+
+// Bundles every tests/*.test.ts file with the test harness and runs them once
+
+const testFiles = fs.readdirSync("tests")
+  .filter((file) => file.endsWith(".test.ts"))
+  .sort();
+
+const obsidianStub = {
+  name: "obsidian-stub",
+  setup(build) {
+    build.onResolve({ filter: /^obsidian$/ }, () => ({ path: path.resolve("tests/obsidian.js") }));
+  },
+};
+
+const outdir = fs.mkdtempSync(path.join(os.tmpdir(), "bookmark-bridge-tests-"));
+const outfile = path.join(outdir, "tests.js");
+
+try {
+  await esbuild.build({
+    stdin: {
+      contents: [
+        ...testFiles.map((file) => `import "./tests/${file}";`),
+        `import { run } from "./tests/harness";`,
+        "export default run();",
+      ].join("\n"),
+      resolveDir: process.cwd(),
+      sourcefile: "tests.ts",
+      loader: "ts",
+    },
+    bundle: true,
+    platform: "node",
+    format: "cjs",
+    target: "es2018",
+    logLevel: "warning",
+    plugins: [obsidianStub],
+    outfile,
+  });
+  const tests = await import(pathToFileURL(outfile).href);
+  await tests.default.default;
+} finally {
+  fs.rmSync(outdir, { recursive: true, force: true });
+}
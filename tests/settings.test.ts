@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import { DEFAULT_SETTINGS, parseSettings, SETTINGS_VERSION } from '../src/settings';
+import { describe, test } from './harness';
+
+describe('parseSettings', () => {
+    test('uses the defaults on first use', () => {
+        assert.deepStrictEqual(parseSettings(null), { settings: DEFAULT_SETTINGS, problems: [], migrations: [], changed: false });
+    });
+
+    test('resets settings that are not an object', () => {
+        for (const saved of ['text', 42, []]) {
+            const loaded = parseSettings(saved);
+            assert.deepStrictEqual(loaded.settings, DEFAULT_SETTINGS);
+            assert.deepStrictEqual(loaded.problems, ['Saved settings could not be read and were reset to the defaults']);
+            assert.strictEqual(loaded.changed, true);
+        }
+    });
+
+    test('keeps valid saved values and fills in missing ones', () => {
+        const loaded = parseSettings({ settingsVersion: SETTINGS_VERSION, targetFolder: 'X', autoSync: false });
+        assert.strictEqual(loaded.settings.targetFolder, 'X');
+        assert.strictEqual(loaded.settings.autoSync, false);
+        assert.strictEqual(loaded.settings.template, DEFAULT_SETTINGS.template);
+        assert.deepStrictEqual(loaded.problems, []);
+        assert.strictEqual(loaded.changed, false);
+    });
+
+    test('migrates settings saved before versioning', () => {
+        const saved = { targetFolder: 'X', singleFileName: '', syncInProgress: true };
+        const loaded = parseSettings(saved);
+        assert.strictEqual(loaded.settings.settingsVersion, SETTINGS_VERSION);
+        assert.strictEqual(loaded.settings.singleFileName, DEFAULT_SETTINGS.singleFileName);
+        assert.strictEqual('syncInProgress' in loaded.settings, false);
+        assert.deepStrictEqual(loaded.migrations, ['Fill in a missing single file name and drop the saved sync-in-progress flag']);
+        assert.deepStrictEqual(loaded.problems, []);
+        assert.strictEqual(loaded.changed, true);
+        assert.deepStrictEqual(saved, { targetFolder: 'X', singleFileName: '', syncInProgress: true });
+    });
+
+    test('replaces invalid values with their defaults and reports them', () => {
+        const loaded = parseSettings({
+            settingsVersion: SETTINGS_VERSION,
+            targetFolder: '  ',
+            fileNameMaxLength: 5.5,
+            storageMethod: 'cloud',
+            autoSync: 'yes',
+            frontmatterProperties: ['tweet_id', 'mood'],
+            folderRoutingRules: [{ type: 'always', value: '', folder: 'All' }, { type: 'author', value: 'jack' }]
+        });
+        assert.deepStrictEqual(loaded.settings, DEFAULT_SETTINGS);
+        assert.deepStrictEqual(loaded.problems, [
+            '"storageMethod" must be one of "separate", "single"; using the default value instead',
+            '"targetFolder" must not be empty; using the default value instead',
+            '"fileNameMaxLength" must be at least 10; using the default value instead',
+            '"frontmatterProperties" item 2 is not a known property; using the default value instead',
+            '"autoSync" must be true or false; using the default value instead',
+            '"folderRoutingRules" item 2 has no folder; using the default value instead'
+        ]);
+        assert.strictEqual(loaded.changed, true);
+    });
+
+    test('accepts valid list settings', () => {
+        const rules = [{ type: 'keyword', value: '#rust', folder: 'Rust' }];
+        const loaded = parseSettings({ settingsVersion: SETTINGS_VERSION, folderRoutingRules: rules, frontmatterProperties: ['likes'] });
+        assert.deepStrictEqual(loaded.settings.folderRoutingRules, rules);
+        assert.deepStrictEqual(loaded.settings.frontmatterProperties, ['likes']);
+        assert.deepStrictEqual(loaded.problems, []);
+    });
+
+    test('warns about settings saved by a newer version without migrating them', () => {
+        const loaded = parseSettings({ settingsVersion: SETTINGS_VERSION + 1, targetFolder: 'X' });
+        assert.strictEqual(loaded.settings.targetFolder, 'X');
+        assert.strictEqual(loaded.settings.settingsVersion, SETTINGS_VERSION + 1);
+        assert.deepStrictEqual(loaded.migrations, []);
+        assert.match(loaded.problems[0], /saved by a newer version of the plugin/);
+        assert.strictEqual(loaded.changed, false);
+    });
+});
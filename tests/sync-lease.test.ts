@@ -0,0 +1,124 @@
+import * as assert from 'assert';
+import { SyncLease, SyncLeaseHolder, SyncLeaseLostError } from '../src/core/sync-lease';
+import { describe, test } from './harness';
+import { atTime, MemoryVault, useDevice } from './memory-vault';
+
+const LEASE_PATH = 'plugin/sync-lease.json';
+const START = 1700000000000;
+const MINUTE = 60 * 1000;
+
+// Heartbeats are run by the tests instead of on a timer
+const heartbeats: Record<number, () => Promise<void>> = {};
+let nextTimer = 1;
+(globalThis as any).window = {
+    setInterval: (fn: () => Promise<void>) => {
+        heartbeats[nextTimer] = fn;
+        return nextTimer++;
+    },
+    clearInterval: (timer: number) => {
+        delete heartbeats[timer];
+    }
+};
+
+async function runHeartbeats(): Promise<void> {
+    for (const timer in heartbeats) {
+        await heartbeats[timer]();
+    }
+}
+
+/**
+ * Open the lease as a device sees it
+ */
+function openLease(vault: MemoryVault, deviceId: string): SyncLease {
+    useDevice(deviceId);
+    return new SyncLease(vault.app, LEASE_PATH);
+}
+
+function readLease(vault: MemoryVault): SyncLeaseHolder {
+    return JSON.parse(vault.files[LEASE_PATH]);
+}
+
+describe('SyncLease', () => {
+    test('is taken by one sync at a time on a device', async () => {
+        const vault = new MemoryVault();
+        const lease = openLease(vault, 'laptop');
+
+        const [first, second] = await Promise.all([lease.acquire(), lease.acquire()]);
+        assert.deepStrictEqual([first, second], [true, false]);
+        assert.strictEqual(lease.isHeld, true);
+        assert.strictEqual(readLease(vault).deviceId, 'laptop');
+
+        await lease.release();
+        assert.strictEqual(lease.isHeld, false);
+        assert.ok(!(LEASE_PATH in vault.files));
+        assert.strictEqual(await lease.acquire(), true);
+        await lease.release();
+    });
+
+    test('is not taken while another device holds it', async () => {
+        const vault = new MemoryVault();
+        const laptop = openLease(vault, 'laptop');
+        await atTime(START, () => laptop.acquire());
+
+        const phone = openLease(vault, 'phone');
+        assert.strictEqual(await atTime(START + 4 * MINUTE, () => phone.acquire()), false);
+        assert.strictEqual((await atTime(START + 4 * MINUTE, () => phone.getHolder()))?.deviceId, 'laptop');
+        await laptop.release();
+    });
+
+    test('expires five minutes after the last heartbeat', async () => {
+        const vault = new MemoryVault();
+        const laptop = openLease(vault, 'laptop');
+        await atTime(START, () => laptop.acquire());
+        assert.strictEqual(readLease(vault).expiresAt, START + 5 * MINUTE);
+
+        const phone = openLease(vault, 'phone');
+        assert.strictEqual(await atTime(START + 5 * MINUTE, () => phone.getHolder()), null);
+        assert.strictEqual(await atTime(START + 5 * MINUTE, () => phone.acquire()), true);
+        assert.strictEqual(readLease(vault).deviceId, 'phone');
+        await phone.release();
+    });
+
+    test('is renewed by each heartbeat', async () => {
+        const vault = new MemoryVault();
+        const laptop = openLease(vault, 'laptop');
+        await atTime(START, () => laptop.acquire());
+        await atTime(START + 4 * MINUTE, runHeartbeats);
+        assert.deepStrictEqual(readLease(vault), { deviceId: 'laptop', acquiredAt: START, heartbeatAt: START + 4 * MINUTE, expiresAt: START + 9 * MINUTE });
+
+        const phone = openLease(vault, 'phone');
+        assert.strictEqual(await atTime(START + 6 * MINUTE, () => phone.acquire()), false);
+        await laptop.release();
+    });
+
+    test('reclaims a lease this device left behind', async () => {
+        const vault = new MemoryVault();
+        const closed = openLease(vault, 'laptop');
+        await atTime(START, () => closed.acquire());
+
+        // Obsidian restarted mid-sync, so the lease is still in the file
+        const restarted = openLease(vault, 'laptop');
+        assert.strictEqual(await atTime(START + MINUTE, () => restarted.acquire()), true);
+        assert.strictEqual(readLease(vault).acquiredAt, START + MINUTE);
+        await restarted.release();
+        await closed.release();
+    });
+
+    test('stops a sync whose lease another device took over', async () => {
+        const vault = new MemoryVault();
+        const laptop = openLease(vault, 'laptop');
+        await atTime(START, () => laptop.acquire());
+        laptop.assertHeld();
+
+        // The laptop slept through its heartbeats and the lease expired
+        const phone = openLease(vault, 'phone');
+        await atTime(START + 6 * MINUTE, () => phone.acquire());
+        await atTime(START + 6 * MINUTE, runHeartbeats);
+
+        assert.strictEqual(laptop.isHeld, false);
+        assert.throws(() => laptop.assertHeld(), SyncLeaseLostError);
+        await laptop.release();
+        assert.strictEqual(readLease(vault).deviceId, 'phone');
+        await phone.release();
+    });
+});
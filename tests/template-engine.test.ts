@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import { renderTemplate, TemplateSyntaxError, validateTemplate } from '../src/core/template-engine';
+import { describe, test } from './harness';
+
+describe('renderTemplate', () => {
+    test('inserts values and dotted paths', () => {
+        const output = renderTemplate('{{authorName}} quoted {{quotedTweet.authorName}}', {
+            authorName: 'Jack',
+            quotedTweet: { authorName: 'Naval' }
+        });
+        assert.strictEqual(output, 'Jack quoted Naval');
+    });
+
+    test('inserts values as they are, including with triple braces and &', () => {
+        const data = { text: '<b>a & b</b>' };
+        assert.strictEqual(renderTemplate('{{text}} {{{text}}} {{& text}}', data), '<b>a & b</b> <b>a & b</b> <b>a & b</b>');
+    });
+
+    test('renders missing values as empty text', () => {
+        assert.strictEqual(renderTemplate('[{{missing}}][{{a.b.c}}]', { a: { b: null } }), '[][]');
+    });
+
+    test('only resolves own properties', () => {
+        assert.strictEqual(renderTemplate('[{{constructor}}][{{text.length}}][{{toString}}]', { text: 'abc' }), '[][][]');
+    });
+
+    test('repeats a section for each item of a list', () => {
+        const output = renderTemplate('{{#mediaUrls}}- {{.}}\n{{/mediaUrls}}', { mediaUrls: ['a.png', 'b.png'] });
+        assert.strictEqual(output, '- a.png\n- b.png\n');
+    });
+
+    test('looks up names in enclosing sections', () => {
+        const output = renderTemplate('{{#thread}}{{text}} by {{authorUsername}};{{/thread}}', {
+            authorUsername: 'jack',
+            thread: [{ text: 'one' }, { text: 'two' }]
+        });
+        assert.strictEqual(output, 'one by jack;two by jack;');
+    });
+
+    test('renders inverted sections for missing, false and empty values', () => {
+        const template = '{{^value}}none{{/value}}';
+        assert.strictEqual(renderTemplate(template, {}), 'none');
+        assert.strictEqual(renderTemplate(template, { value: false }), 'none');
+        assert.strictEqual(renderTemplate(template, { value: [] }), 'none');
+        assert.strictEqual(renderTemplate(template, { value: 'x' }), '');
+    });
+
+    test('leaves no empty lines for standalone section and comment tags', () => {
+        const template = 'Start\n{{#hasMedia}}\n  {{! media }}\nMedia\n{{/hasMedia}}\nEnd';
+        assert.strictEqual(renderTemplate(template, { hasMedia: true }), 'Start\nMedia\nEnd');
+        assert.strictEqual(renderTemplate(template, { hasMedia: false }), 'Start\nEnd');
+    });
+
+    test('writes \\{{ as a literal {{', () => {
+        assert.strictEqual(renderTemplate('\\{{text}} {{text}}', { text: 'a' }), '{{text}} a');
+    });
+
+    test('calls helpers with literals and nested calls', () => {
+        assert.strictEqual(renderTemplate('{{truncate text 5}}', { text: 'abcdefgh' }), 'abcd…');
+        assert.strictEqual(renderTemplate('{{truncate text 5 ""}}', { text: 'abcdefgh' }), 'abcde');
+        assert.strictEqual(renderTemplate('{{upper (truncate text 3 "")}}', { text: 'abcdef' }), 'ABC');
+        assert.strictEqual(renderTemplate('{{slug title}}', { title: 'Hello, Wörld! 你好' }), 'hello-wörld-你好');
+    });
+
+    test('keeps escaped quotes in string arguments', () => {
+        assert.strictEqual(renderTemplate('{{yamlEscape "say \\"hi\\""}}', {}), 'say \\"hi\\"');
+        assert.strictEqual(renderTemplate('{{truncate text 3 \'\\\'\'}}', { text: 'abcdef' }), 'ab\'');
+    });
+
+    test('formats dates with moment tokens', () => {
+        const createdAt = new Date('2024-05-01T12:00:00Z');
+        assert.strictEqual(renderTemplate('{{date "YYYY-MM"}}', { createdAt }), '2024-05');
+        assert.strictEqual(renderTemplate('{{date other "YYYY"}}', { createdAt, other: '2020-01-15T12:00:00Z' }), '2020');
+        assert.strictEqual(renderTemplate('{{date missing "YYYY"}}', { createdAt }), '');
+    });
+});
+
+describe('validateTemplate', () => {
+    test('accepts a valid template', () => {
+        assert.strictEqual(validateTemplate('{{#a}}{{b}}{{/a}}{{^c}}{{/c}}'), null);
+    });
+
+    test('reports where a tag is never closed', () => {
+        const error = validateTemplate('Line one\n  {{text');
+        assert.ok(error instanceof TemplateSyntaxError);
+        assert.strictEqual(error.line, 2);
+        assert.strictEqual(error.column, 3);
+    });
+
+    test('reports unclosed and mismatched sections', () => {
+        assert.match(validateTemplate('{{#a}}text')?.message || '', /Section "a" is never closed/);
+        assert.match(validateTemplate('{{#a}}\n{{/b}}')?.message || '', /doesn't match "\{\{#a\}\}" opened on line 1/);
+        assert.match(validateTemplate('{{/a}}')?.message || '', /never opened/);
+    });
+
+    test('reports unknown helpers, including inherited names', () => {
+        assert.match(validateTemplate('{{shout text}}')?.message || '', /Unknown helper "shout"/);
+        assert.match(validateTemplate('{{constructor text}}')?.message || '', /Unknown helper "constructor"/);
+    });
+
+    test('reports unclosed quotes and empty tags', () => {
+        assert.match(validateTemplate('{{truncate text 5 "…}}')?.message || '', /Unclosed quote/);
+        assert.match(validateTemplate('{{ }}')?.message || '', /Empty tag/);
+    });
+
+    test('makes renderTemplate throw the same error', () => {
+        assert.throws(() => renderTemplate('{{#a}}', {}), TemplateSyntaxError);
+    });
+});